@@ -1,4 +1,6 @@
 const esbuild = require("esbuild");
+const fs = require("fs");
+const path = require("path");
 
 const production = process.argv.includes('--production');
 const watch = process.argv.includes('--watch');
@@ -23,19 +25,30 @@ const esbuildProblemMatcherPlugin = {
 	},
 };
 
+/**
+ * The webview loads D3 from the extension rather than a CDN, so the graph also renders offline
+ */
+function copyWebviewAssets() {
+	fs.mkdirSync('dist', { recursive: true });
+	fs.copyFileSync(path.join(__dirname, 'node_modules', 'd3', 'dist', 'd3.min.js'), path.join('dist', 'd3.min.js'));
+}
+
 async function main() {
+	copyWebviewAssets();
 	const ctx = await esbuild.context({
-		entryPoints: [
-			'src/extension.ts'
-		],
+		entryPoints: {
+			extension: 'src/extension.ts',
+			cli: 'src/cli/main.ts'
+		},
 		bundle: true,
 		format: 'cjs',
 		minify: production,
 		sourcemap: !production,
 		sourcesContent: false,
 		platform: 'node',
-		outfile: 'dist/extension.js',
-		external: ['vscode'],
+		outdir: 'dist',
+		// The CLI uses the analyzed project's own TypeScript when it has one, otherwise its dependency
+		external: ['vscode', 'typescript'],
 		logLevel: 'silent',
 		plugins: [
 			/* add to the end of plugins array */
@@ -0,0 +1,68 @@
+import { DependencyLink, DependencyNode, ImpactAnalysis } from './types';
+
+// ─── Analysis Comparison ─────────────────────────────────────
+
+/**
+ * Overlays an earlier analysis onto a later one of the same symbol. Nodes and links of the later
+ * analysis are marked `added` or `unchanged`; those only in the earlier one are appended as
+ * `removed`. Summary figures and risk are the later analysis'. Nodes are matched by id, which is
+ * built from the file and the symbol name (or line, for `L12` nodes) and so survives edits that
+ * shift lines.
+ */
+export function compareAnalyses(
+	before: ImpactAnalysis,
+	after: ImpactAnalysis,
+	labels: { before: string; after: string }
+): ImpactAnalysis {
+	const beforeIds = new Set(before.nodes.map(n => n.id));
+	const afterIds = new Set(after.nodes.map(n => n.id));
+
+	const nodes: DependencyNode[] = after.nodes.map(n => ({
+		...n,
+		diff: beforeIds.has(n.id) ? 'unchanged' : 'added'
+	}));
+
+	// Earlier nodes map onto their later counterpart, or become removed nodes of their own
+	const beforeToCombined = new Map<string, string>();
+	for (const node of before.nodes) {
+		if (afterIds.has(node.id)) {
+			beforeToCombined.set(node.id, node.id);
+			continue;
+		}
+		// A removed location no longer needs checking, so it drops out of the risk ranking
+		const { risk: _risk, cycle: _cycle, ...rest } = node;
+		const removed: DependencyNode = { ...rest, id: `removed-${node.id}`, isRoot: false, diff: 'removed' };
+		beforeToCombined.set(node.id, removed.id);
+		nodes.push(removed);
+	}
+
+	const linkKey = (link: DependencyLink) => `${link.source}->${link.target}`;
+	const beforeLinkKeys = new Set(before.links.map(linkKey));
+	const afterLinkKeys = new Set(after.links.map(linkKey));
+
+	const links: DependencyLink[] = after.links.map(l => ({
+		...l,
+		diff: beforeLinkKeys.has(linkKey(l)) ? 'unchanged' : 'added'
+	}));
+	for (const link of before.links) {
+		if (afterLinkKeys.has(linkKey(link))) { continue; }
+		links.push({
+			source: beforeToCombined.get(link.source)!,
+			target: beforeToCombined.get(link.target)!,
+			type: link.type,
+			diff: 'removed'
+		});
+	}
+
+	return {
+		...after,
+		nodes,
+		links,
+		comparison: {
+			before: labels.before,
+			after: labels.after,
+			added: nodes.filter(n => n.diff === 'added').length,
+			removed: nodes.filter(n => n.diff === 'removed').length
+		}
+	};
+}
@@ -0,0 +1,237 @@
+import { DependencyNode, ImpactAnalysis } from './types';
+
+// ─── Analysis Export ─────────────────────────────────────────
+
+export type TextExportFormat = 'json' | 'markdown' | 'mermaid' | 'dot';
+
+/** Bumped whenever a field of the exported JSON changes meaning or is removed */
+export const EXPORT_SCHEMA_VERSION = 1;
+
+/** Turns an absolute file path into the form shown in exports, e.g. workspace-relative */
+export type PathFormatter = (filePath: string) => string;
+
+const identity: PathFormatter = filePath => filePath;
+
+export function exportAnalysis(analysis: ImpactAnalysis, format: TextExportFormat, formatPath: PathFormatter = identity): string {
+	switch (format) {
+		case 'json': return toJson(analysis, formatPath);
+		case 'markdown': return toMarkdown(analysis, formatPath);
+		case 'mermaid': return toMermaid(analysis);
+		case 'dot': return toDot(analysis);
+	}
+}
+
+/**
+ * Raw nodes and links with an explicit field list, so renderer state (D3 positions) never
+ * leaks into the file and consumers can rely on `schemaVersion`.
+ */
+export function toJson(analysis: ImpactAnalysis, formatPath: PathFormatter = identity): string {
+	return JSON.stringify({
+		schemaVersion: EXPORT_SCHEMA_VERSION,
+		symbol: analysis.symbol,
+		sourceFile: analysis.sourceFile,
+		kind: analysis.moduleGraph ? 'modules' : analysis.callDirection ? 'callHierarchy' : 'references',
+		...(analysis.callDirection ? { callDirection: analysis.callDirection } : {}),
+		...(analysis.comparison ? { comparison: analysis.comparison } : {}),
+		...(analysis.refactor ? { refactor: analysis.refactor } : {}),
+		summary: {
+			affectedFiles: analysis.affectedFiles,
+			totalReferences: analysis.totalReferences,
+			maxDepth: analysis.maxDepth,
+			nodes: analysis.nodes.length,
+			...(analysis.risk ? { blastRadius: analysis.risk } : {})
+		},
+		...(analysis.packages ? {
+			packages: analysis.packages.map(p => ({ name: p.name, dir: formatPath(p.dir), nodes: p.nodes, files: p.files })),
+			packageLinks: analysis.packageLinks ?? []
+		} : {}),
+		nodes: analysis.nodes.map(n => ({
+			id: n.id,
+			name: n.name,
+			type: n.type,
+			file: formatPath(n.uri),
+			line: n.line,
+			depth: n.depth,
+			references: n.references,
+			isRoot: n.isRoot,
+			...(n.risk !== undefined ? { risk: n.risk } : {}),
+			...(n.cycle ? { cycle: true } : {}),
+			...(n.diff ? { diff: n.diff } : {}),
+			...(n.package ? { package: n.package } : {}),
+			...(n.refactor ? { refactor: n.refactor } : {}),
+			...(n.refactorNotes ? { refactorNotes: n.refactorNotes } : {}),
+			...(n.excerpt ? { excerpt: n.excerpt } : {})
+		})),
+		links: analysis.links.map(l => ({
+			source: l.source,
+			target: l.target,
+			type: l.type,
+			...(l.line !== undefined ? { line: l.line } : {}),
+			...(l.typeOnly ? { typeOnly: true } : {}),
+			...(l.cycle ? { cycle: true } : {}),
+			...(l.violation ? { violation: l.violation } : {}),
+			...(l.diff ? { diff: l.diff } : {})
+		}))
+	}, null, 2);
+}
+
+/** Report for a pull request description: summary, riskiest locations and every affected file */
+export function toMarkdown(analysis: ImpactAnalysis, formatPath: PathFormatter = identity): string {
+	const lines: string[] = [];
+	const heading = analysis.moduleGraph ? `Module dependencies of \`${analysis.symbol}\``
+		: analysis.callDirection ? `Call hierarchy of \`${analysis.symbol}\``
+		: `Impact of \`${analysis.symbol}\``;
+
+	lines.push(`## ${heading}`, '');
+	if (!analysis.moduleGraph) {
+		lines.push(`Defined in \`${analysis.sourceFile}\``, '');
+	}
+
+	lines.push('| Files | References | Nodes | Hops | Blast radius |', '| --- | --- | --- | --- | --- |');
+	const blastRadius = analysis.risk ? `${capitalize(analysis.risk.rating)} (${analysis.risk.score}/100)` : '–';
+	lines.push(`| ${analysis.affectedFiles} | ${analysis.totalReferences} | ${analysis.nodes.length} | ${analysis.maxDepth} | ${blastRadius} |`, '');
+
+	if (analysis.packages && analysis.packages.length > 0) {
+		const count = analysis.packages.length;
+		lines.push('### Affected packages', '', `${analysis.moduleGraph ? 'Spans' : 'Affects'} ${count} package${count !== 1 ? 's' : ''}:`, '');
+		// Impact edges lead from the changed code to its dependents, import edges from importer to imported
+		const relation = analysis.moduleGraph ? 'imported by' : 'via';
+		for (const pkg of analysis.packages) {
+			const from = (analysis.packageLinks ?? []).filter(l => l.target === pkg.name).map(l => `\`${l.source}\``);
+			const locations = analysis.moduleGraph ? '' : `${pkg.nodes} location${pkg.nodes !== 1 ? 's' : ''} in `;
+			lines.push(`- \`${pkg.name}\`: ${locations}${pkg.files} file${pkg.files !== 1 ? 's' : ''}${from.length > 0 ? `, ${relation} ${from.join(', ')}` : ''}`);
+		}
+		lines.push('');
+	}
+
+	if (analysis.comparison) {
+		const changed = (status: 'added' | 'removed') => analysis.nodes
+			.filter(n => n.diff === status)
+			.map(n => `\`${nodeLabel(n)}\` (\`${formatPath(n.uri)}\`)`);
+		const added = changed('added');
+		const removed = changed('removed');
+		lines.push(`### Changes since ${analysis.comparison.before}`, '');
+		lines.push(`- Newly impacted: ${added.length > 0 ? added.join(', ') : 'none'}`);
+		lines.push(`- No longer impacted: ${removed.length > 0 ? removed.join(', ') : 'none'}`, '');
+	}
+
+	if (analysis.refactor) {
+		const { edits, files, automatic } = analysis.refactor;
+		const manual = analysis.nodes.filter(n => n.refactor === 'manual');
+		lines.push(`### Preview of \`${analysis.refactor.signature}\``, '');
+		lines.push(`- Updated automatically: ${automatic} location${automatic !== 1 ? 's' : ''}, by ${edits} edit${edits !== 1 ? 's' : ''} in ${files} file${files !== 1 ? 's' : ''}`);
+		lines.push(manual.length > 0 ? '- Needs manual attention:' : '- Needs manual attention: none');
+		for (const node of manual) {
+			lines.push(`  - \`${nodeLabel(node)}\` — \`${formatPath(node.uri)}:${node.line}\`: ${(node.refactorNotes ?? []).join('; ')}`);
+		}
+		lines.push('');
+	}
+
+	const ranked = analysis.nodes
+		.filter(n => !n.isRoot && n.risk !== undefined)
+		.sort((a, b) => b.risk! - a.risk!)
+		.slice(0, 10);
+	if (ranked.length > 0) {
+		lines.push('### Check first', '', '| Risk | Location | Hops |', '| --- | --- | --- |');
+		for (const node of ranked) {
+			lines.push(`| ${node.risk} | ${escapeTableCell(nodeLabel(node))} — \`${formatPath(node.uri)}:${node.line}\` | ${node.depth} |`);
+		}
+		lines.push('');
+	}
+
+	const byFile = new Map<string, DependencyNode[]>();
+	for (const node of analysis.nodes) {
+		if (node.isRoot || node.diff === 'removed' || node.type === 'possible') { continue; }
+		if (!byFile.has(node.uri)) { byFile.set(node.uri, []); }
+		byFile.get(node.uri)!.push(node);
+	}
+
+	lines.push('### Affected files', '');
+	for (const [filePath, nodes] of [...byFile].sort(([a], [b]) => formatPath(a).localeCompare(formatPath(b)))) {
+		const symbols = nodes
+			.filter(n => n.name !== n.fileName && !analysis.moduleGraph)
+			.map(n => `\`${nodeLabel(n)}\` (L${n.line})`);
+		const testMark = nodes.some(n => n.type === 'test') ? ' _(tests)_' : '';
+		lines.push(`- \`${formatPath(filePath)}\`${testMark}${symbols.length > 0 ? `: ${symbols.join(', ')}` : ''}`);
+	}
+
+	const possible = analysis.nodes.filter(n => n.type === 'possible');
+	if (possible.length > 0) {
+		lines.push('', '### Possible references', '', `Found by text search; check whether they refer to \`${analysis.symbol}\`:`, '');
+		for (const node of possible) {
+			lines.push(`- \`${formatPath(node.uri)}:${node.line}\`${node.excerpt ? `: \`${node.excerpt.replace(/`/g, '\'')}\`` : ''}`);
+		}
+	}
+
+	const cycles = analysis.links.filter(l => l.cycle).length;
+	const violations = analysis.links.filter(l => l.violation);
+	if (cycles > 0 || violations.length > 0) {
+		lines.push('', '### Problems', '');
+		if (cycles > 0) { lines.push(`- ${cycles} edge${cycles !== 1 ? 's' : ''} on dependency cycles`); }
+		violations.forEach(l => lines.push(`- ${l.violation}`));
+	}
+
+	return lines.join('\n') + '\n';
+}
+
+export function toMermaid(analysis: ImpactAnalysis): string {
+	const ids = new Map(analysis.nodes.map((n, i) => [n.id, `n${i}`]));
+	const lines = ['graph LR'];
+
+	for (const node of analysis.nodes) {
+		const label = nodeLabel(node).replace(/"/g, '#quot;');
+		lines.push(node.isRoot ? `\t${ids.get(node.id)}(("${label}"))` : `\t${ids.get(node.id)}["${label}"]`);
+	}
+
+	const highlighted: number[] = [];
+	analysis.links.forEach((link, i) => {
+		lines.push(`\t${ids.get(link.source)} -->|${link.type}| ${ids.get(link.target)}`);
+		if (link.cycle || link.violation) { highlighted.push(i); }
+	});
+	if (highlighted.length > 0) {
+		lines.push(`\tlinkStyle ${highlighted.join(',')} stroke:#f44336,stroke-width:2px`);
+	}
+
+	return lines.join('\n') + '\n';
+}
+
+export function toDot(analysis: ImpactAnalysis): string {
+	const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+	const lines = [
+		`digraph ${quote(analysis.symbol)} {`,
+		'\trankdir=LR;',
+		'\tnode [shape=box, style=rounded, fontname="Helvetica"];'
+	];
+
+	for (const node of analysis.nodes) {
+		const attributes = [`label=${quote(nodeLabel(node))}`];
+		if (node.isRoot) { attributes.push('shape=ellipse', 'style=bold'); }
+		if (node.cycle) { attributes.push('color="#f44336"'); }
+		lines.push(`\t${quote(node.id)} [${attributes.join(', ')}];`);
+	}
+
+	for (const link of analysis.links) {
+		const attributes = [`label=${quote(link.type)}`];
+		if (link.violation) {
+			attributes.push('color="#E040FB"', 'style=dashed', `tooltip=${quote(link.violation)}`);
+		} else if (link.cycle) {
+			attributes.push('color="#f44336"');
+		}
+		lines.push(`\t${quote(link.source)} -> ${quote(link.target)} [${attributes.join(', ')}];`);
+	}
+
+	lines.push('}');
+	return lines.join('\n') + '\n';
+}
+
+function nodeLabel(node: DependencyNode): string {
+	return /^L\d+$/.test(node.name) ? `${node.fileName}:${node.line}` : node.name;
+}
+
+function escapeTableCell(text: string): string {
+	return text.replace(/\|/g, '\\|');
+}
+
+function capitalize(text: string): string {
+	return text.charAt(0).toUpperCase() + text.slice(1);
+}
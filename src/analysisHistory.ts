@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import { ImpactAnalysis } from './types';
+
+// ─── Analysis History ────────────────────────────────────────
+
+const STORAGE_KEY = 'dependencyImpactVisualizer.history';
+
+export interface HistoryEntry {
+	id: number;
+	analysis: ImpactAnalysis;
+	/** Epoch milliseconds */
+	savedAt: number;
+	/** Pinned entries are never evicted to make room for newer ones */
+	pinned: boolean;
+}
+
+/** What the panel's history bar needs to render its buttons */
+export interface HistoryView {
+	/** Position of the shown entry, 0 = oldest */
+	index: number;
+	count: number;
+	pinned: boolean;
+	/** Another entry analyzed the same symbol, so the shown one can be compared against it */
+	comparable: boolean;
+}
+
+/**
+ * Recent analyses with a cursor for back/forward navigation, persisted in workspace state so
+ * they survive reloads. Module graphs are only persisted when pinned: they can be large and are
+ * cheap to rebuild.
+ */
+export class AnalysisHistory {
+	private readonly entries: HistoryEntry[];
+	private cursor: number;
+	private nextId: number;
+
+	constructor(private readonly state: vscode.Memento) {
+		this.entries = state.get<HistoryEntry[]>(STORAGE_KEY, []);
+		this.cursor = this.entries.length - 1;
+		this.nextId = Math.max(0, ...this.entries.map(e => e.id)) + 1;
+	}
+
+	/** Oldest first */
+	get all(): readonly HistoryEntry[] {
+		return this.entries;
+	}
+
+	get current(): HistoryEntry | undefined {
+		return this.entries[this.cursor];
+	}
+
+	get view(): HistoryView | undefined {
+		const entry = this.current;
+		return entry && {
+			index: this.cursor,
+			count: this.entries.length,
+			pinned: entry.pinned,
+			comparable: this.comparableWith(entry).length > 0
+		};
+	}
+
+	/** Appends a new analysis and moves the cursor to it */
+	record(analysis: ImpactAnalysis): HistoryEntry {
+		const entry: HistoryEntry = { id: this.nextId++, analysis, savedAt: Date.now(), pinned: false };
+		this.entries.push(entry);
+		this.cursor = this.entries.length - 1;
+		this.evict();
+		this.save();
+		return entry;
+	}
+
+	/**
+	 * Replaces the shown entry's analysis with a newer run of the same symbol, e.g. while typing.
+	 * A pinned entry is kept as it was and the newer run is recorded after it.
+	 */
+	refresh(analysis: ImpactAnalysis): HistoryEntry {
+		const entry = this.current;
+		if (!entry || entry.pinned) { return this.record(analysis); }
+		entry.analysis = analysis;
+		entry.savedAt = Date.now();
+		this.save();
+		return entry;
+	}
+
+	/** Steps back (-1) or forward (1); undefined at either end */
+	go(offset: -1 | 1): HistoryEntry | undefined {
+		const target = this.cursor + offset;
+		if (target < 0 || target >= this.entries.length) { return undefined; }
+		this.cursor = target;
+		return this.entries[target];
+	}
+
+	/** Moves the cursor to an entry */
+	select(id: number): HistoryEntry | undefined {
+		const index = this.entries.findIndex(e => e.id === id);
+		if (index < 0) { return undefined; }
+		this.cursor = index;
+		return this.entries[index];
+	}
+
+	togglePin(id: number): boolean {
+		const entry = this.entries.find(e => e.id === id);
+		if (!entry) { return false; }
+		entry.pinned = !entry.pinned;
+		this.evict();
+		this.save();
+		return entry.pinned;
+	}
+
+	/** Other entries of the same symbol (or change set, or folder), newest first */
+	comparableWith(entry: HistoryEntry): HistoryEntry[] {
+		return this.entries
+			.filter(e => e.id !== entry.id && e.analysis.symbol === entry.analysis.symbol
+				&& !!e.analysis.moduleGraph === !!entry.analysis.moduleGraph
+				&& e.analysis.callDirection === entry.analysis.callDirection)
+			.reverse();
+	}
+
+	/** Drops the oldest unpinned entries beyond the configured size, never the shown one */
+	private evict() {
+		const size = Math.max(vscode.workspace.getConfiguration('dependencyImpactVisualizer').get<number>('history.size', 20), 1);
+		let unpinned = this.entries.filter(e => !e.pinned).length;
+
+		for (let i = 0; i < this.entries.length && unpinned > size;) {
+			if (this.entries[i].pinned || i === this.cursor) {
+				i++;
+				continue;
+			}
+			this.entries.splice(i, 1);
+			if (i < this.cursor) { this.cursor--; }
+			unpinned--;
+		}
+	}
+
+	private save() {
+		const persisted = this.entries.filter(e => e.pinned || !e.analysis.moduleGraph);
+		this.state.update(STORAGE_KEY, persisted).then(undefined, err => console.error('Analysis history could not be saved', err));
+	}
+}
+
+/** Short description such as `Today 14:05` or `3 Mar 09:12` */
+export function formatHistoryTime(savedAt: number): string {
+	const date = new Date(savedAt);
+	const time = date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+	return date.toDateString() === new Date().toDateString()
+		? `Today ${time}`
+		: `${date.toLocaleDateString(undefined, { day: 'numeric', month: 'short' })} ${time}`;
+}
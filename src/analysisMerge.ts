@@ -0,0 +1,80 @@
+import { DependencyLink, DependencyNode, ImpactAnalysis } from './types';
+import { countAffectedFiles, stableNodeId } from './impactEngine';
+
+// ─── Analysis Merging ────────────────────────────────────────
+
+/**
+ * Combines several analyses into one graph under a synthetic root. Each analysis' root becomes
+ * a sub-root linked from the new root, and nodes reached from several sub-roots are merged.
+ * Nodes keep their stable ids; sub-roots get `root:` ids from their file and symbol.
+ */
+export function mergeImpactAnalyses(label: string, sourcePath: string, analyses: ImpactAnalysis[]): ImpactAnalysis {
+	const sourceFileName = sourcePath.split(/[\\/]/).pop() || 'unknown';
+	const nodes: DependencyNode[] = [{
+		id: 'root',
+		name: label,
+		fileName: sourceFileName,
+		uri: sourcePath,
+		line: 0,
+		type: 'symbol',
+		references: analyses.reduce((sum, a) => sum + a.totalReferences, 0),
+		isRoot: true,
+		depth: 0
+	}];
+	const links: DependencyLink[] = [];
+	const merged = new Map<string, DependencyNode>();
+	const linkKeys = new Set<string>();
+	const idCounts = new Map<string, number>();
+
+	for (const analysis of analyses) {
+		const idMap = new Map<string, string>();
+
+		for (const node of analysis.nodes) {
+			const identity = node.isRoot ? `root:${node.uri}:${node.name}`
+				: node.id.startsWith('file:') ? `file:${node.uri}`
+				: `${node.uri}:${node.line}:${node.name}`;
+			const existing = merged.get(identity);
+
+			if (existing) {
+				existing.references += node.references;
+				existing.depth = Math.min(existing.depth, node.depth);
+				if (node.referenceLines) {
+					existing.referenceLines = [...new Set([...existing.referenceLines ?? [], ...node.referenceLines])].sort((a, b) => a - b);
+				}
+				idMap.set(node.id, existing.id);
+				continue;
+			}
+
+			const id = stableNodeId({ idCounts }, node.isRoot ? `root:${node.uri}#${node.name}` : node.id);
+			const copy: DependencyNode = { ...node, id, isRoot: false };
+			merged.set(identity, copy);
+			nodes.push(copy);
+			idMap.set(node.id, copy.id);
+
+			if (node.isRoot) {
+				linkKeys.add(`root->${copy.id}`);
+				links.push({ source: 'root', target: copy.id, type: 'defines' });
+			}
+		}
+
+		for (const link of analysis.links) {
+			const source = idMap.get(link.source)!;
+			const target = idMap.get(link.target)!;
+			const linkKey = `${source}->${target}`;
+			if (!linkKeys.has(linkKey)) {
+				linkKeys.add(linkKey);
+				links.push({ source, target, type: link.type });
+			}
+		}
+	}
+
+	return {
+		symbol: label,
+		sourceFile: sourceFileName,
+		affectedFiles: countAffectedFiles(nodes, links),
+		totalReferences: nodes[0].references,
+		maxDepth: Math.max(0, ...analyses.map(a => a.maxDepth)),
+		nodes,
+		links
+	};
+}
@@ -0,0 +1,154 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ImpactAnalysis } from './types';
+import { ArchitectureRule, RULES_FILE, describeViolation, findViolatedRule, parseArchitectureRules } from './architectureRules';
+import { ParsedModule, parseModule } from './moduleParser';
+import { SOURCE_EXTENSIONS, resolveImport } from './moduleResolver';
+import { ModuleSet, collectModules } from './moduleGraph';
+import { DependencyIndex } from './dependencyIndex';
+
+// ─── Architecture Guard ──────────────────────────────────────
+
+const SEVERITIES: Record<ArchitectureRule['severity'], vscode.DiagnosticSeverity> = {
+	error: vscode.DiagnosticSeverity.Error,
+	warning: vscode.DiagnosticSeverity.Warning,
+	information: vscode.DiagnosticSeverity.Information
+};
+
+/**
+ * Checks imports against the layer rules in each workspace folder's `.codeweb.json`: the whole
+ * workspace when rules change or on demand, and open editors as they are edited. Violations are
+ * reported as diagnostics on the offending import lines.
+ */
+export class ArchitectureGuard implements vscode.Disposable {
+	private readonly diagnostics = vscode.languages.createDiagnosticCollection('dependencyImpactVisualizer.architecture');
+	/** Rules keyed by workspace folder path */
+	private readonly rules = new Map<string, ArchitectureRule[]>();
+	private readonly disposables: vscode.Disposable[] = [this.diagnostics];
+	/** Modules of the last workspace check, used when the dependency index is unavailable */
+	private modules: ModuleSet | undefined;
+	/** Pending re-checks keyed by document URI, so editing one file does not cancel another's */
+	private readonly checkTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+	constructor(private readonly index: DependencyIndex | undefined) {}
+
+	async initialize(): Promise<void> {
+		const watcher = vscode.workspace.createFileSystemWatcher(`**/${RULES_FILE}`);
+		const reload = async () => {
+			await this.loadRules();
+			await this.checkWorkspace();
+		};
+		watcher.onDidCreate(reload, undefined, this.disposables);
+		watcher.onDidChange(reload, undefined, this.disposables);
+		watcher.onDidDelete(reload, undefined, this.disposables);
+		this.disposables.push(watcher);
+
+		vscode.workspace.onDidChangeTextDocument(event => {
+			if (!this.hasRules) { return; }
+			const key = event.document.uri.toString();
+			clearTimeout(this.checkTimers.get(key));
+			this.checkTimers.set(key, setTimeout(() => {
+				this.checkTimers.delete(key);
+				this.checkDocument(event.document);
+			}, 500));
+		}, undefined, this.disposables);
+
+		await reload();
+	}
+
+	get hasRules(): boolean {
+		return [...this.rules.values()].some(rules => rules.length > 0);
+	}
+
+	/** Checks every import in the workspace and returns the number of violations */
+	async checkWorkspace(): Promise<number> {
+		this.diagnostics.clear();
+		if (!this.hasRules) { return 0; }
+
+		this.modules = await collectModules(this.index);
+		let violations = 0;
+		for (const [filePath, module] of this.modules.modules) {
+			const diagnostics = this.checkModule(filePath, module, this.modules);
+			if (diagnostics.length > 0) {
+				this.diagnostics.set(vscode.Uri.file(filePath), diagnostics);
+				violations += diagnostics.length;
+			}
+		}
+		return violations;
+	}
+
+	/** Attaches the violated rule's message to every import edge of a module graph that breaks a rule */
+	markViolations(analysis: ImpactAnalysis) {
+		if (!this.hasRules) { return; }
+
+		const nodes = new Map(analysis.nodes.map(n => [n.id, n]));
+		for (const link of analysis.links) {
+			if (link.type !== 'imports') { continue; }
+			link.violation = this.findViolation(nodes.get(link.source)!.uri, nodes.get(link.target)!.uri)?.message;
+		}
+	}
+
+	dispose() {
+		this.checkTimers.forEach(timer => clearTimeout(timer));
+		this.disposables.forEach(d => d.dispose());
+	}
+
+	/** Re-checks an edited file from its live text */
+	private checkDocument(document: vscode.TextDocument) {
+		const modules = this.index?.snapshot() ?? this.modules;
+		if (!modules || document.uri.scheme !== 'file') { return; }
+		if (!SOURCE_EXTENSIONS.includes(path.extname(document.uri.fsPath))) { return; }
+
+		this.diagnostics.set(document.uri, this.checkModule(document.uri.fsPath, parseModule(document.getText()), modules));
+	}
+
+	private checkModule(filePath: string, module: ParsedModule, { modules, config }: ModuleSet): vscode.Diagnostic[] {
+		const diagnostics: vscode.Diagnostic[] = [];
+
+		for (const imp of module.imports) {
+			const target = resolveImport(filePath, imp.specifier, f => modules.has(f), config);
+			const violation = target && this.findViolation(filePath, target);
+			if (!violation) { continue; }
+
+			const diagnostic = new vscode.Diagnostic(
+				new vscode.Range(imp.line, 0, imp.line, Number.MAX_SAFE_INTEGER),
+				violation.message,
+				SEVERITIES[violation.rule.severity]
+			);
+			diagnostic.source = 'Dependency Impact';
+			diagnostics.push(diagnostic);
+		}
+		return diagnostics;
+	}
+
+	private findViolation(fromFile: string, toFile: string): { rule: ArchitectureRule; message: string } | undefined {
+		const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fromFile));
+		const rules = folder && this.rules.get(folder.uri.fsPath);
+		if (!folder || !rules) { return undefined; }
+
+		const toRulePath = (filePath: string) => path.relative(folder.uri.fsPath, filePath).split(path.sep).join('/');
+		const fromPath = toRulePath(fromFile);
+		const toPath = toRulePath(toFile);
+		const rule = findViolatedRule(rules, fromPath, toPath);
+		return rule && { rule, message: describeViolation(rule, fromPath, toPath) };
+	}
+
+	private async loadRules() {
+		this.rules.clear();
+
+		for (const folder of vscode.workspace.workspaceFolders ?? []) {
+			let text: string;
+			try {
+				text = new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, RULES_FILE)));
+			} catch {
+				continue;
+			}
+
+			try {
+				this.rules.set(folder.uri.fsPath, parseArchitectureRules(JSON.parse(text)));
+			} catch (err) {
+				vscode.window.showWarningMessage(`Invalid ${RULES_FILE} in ${folder.name}: ${(err as Error).message}`);
+			}
+		}
+	}
+}
@@ -0,0 +1,122 @@
+// ─── Architecture Rules ──────────────────────────────────────
+
+export const RULES_FILE = '.codeweb.json';
+
+export type RuleSeverity = 'error' | 'warning' | 'information';
+
+/** "Files matching `from` must not import files matching `disallow`", with paths relative to the workspace folder */
+export interface ArchitectureRule {
+	from: string[];
+	disallow: string[];
+	message?: string;
+	severity: RuleSeverity;
+	fromMatchers: RegExp[];
+	disallowMatchers: RegExp[];
+}
+
+/**
+ * Validates the contents of `.codeweb.json`:
+ * `{ "rules": [{ "from": "src/ui/**", "disallow": ["src/db/**"], "message": "...", "severity": "warning" }] }`.
+ * Throws an Error describing the first problem found.
+ */
+export function parseArchitectureRules(config: unknown): ArchitectureRule[] {
+	const rules = isObject(config) ? config.rules : undefined;
+	if (rules === undefined) { return []; }
+	if (!Array.isArray(rules)) { throw new Error('"rules" must be an array'); }
+
+	return rules.map((rule: unknown, i) => {
+		if (!isObject(rule)) { throw new Error(`rules[${i}] must be an object`); }
+		const from = toPatternList(rule.from, `rules[${i}].from`);
+		const disallow = toPatternList(rule.disallow, `rules[${i}].disallow`);
+		const { message } = rule;
+		if (message !== undefined && typeof message !== 'string') {
+			throw new Error(`rules[${i}].message must be a string`);
+		}
+		const severity = rule.severity ?? 'warning';
+		if (!isSeverity(severity)) {
+			throw new Error(`rules[${i}].severity must be "error", "warning" or "information"`);
+		}
+
+		return {
+			from,
+			disallow,
+			message,
+			severity,
+			fromMatchers: from.map(globToRegExp),
+			disallowMatchers: disallow.map(globToRegExp)
+		};
+	});
+}
+
+/**
+ * The first rule that forbids `fromPath` importing `toPath` (both relative, `/`-separated).
+ * Files inside a disallowed area may still import each other.
+ */
+export function findViolatedRule(rules: ArchitectureRule[], fromPath: string, toPath: string): ArchitectureRule | undefined {
+	return rules.find(rule => rule.fromMatchers.some(m => m.test(fromPath))
+		&& rule.disallowMatchers.some(m => m.test(toPath))
+		&& !rule.disallowMatchers.some(m => m.test(fromPath)));
+}
+
+/** Message for a violation, e.g. `src/ui/app.ts must not import src/db/users.ts (src/db/**)` */
+export function describeViolation(rule: ArchitectureRule, fromPath: string, toPath: string): string {
+	const pattern = rule.disallow.find((_, i) => rule.disallowMatchers[i].test(toPath));
+	const detail = `${fromPath} must not import ${toPath} (${pattern})`;
+	return rule.message ? `${rule.message}: ${detail}` : detail;
+}
+
+/**
+ * Converts a glob (`**`, `*`, `?`, `{a,b}`) to a regular expression over `/`-separated paths.
+ * A pattern without wildcards matches that file or anything below that folder.
+ */
+export function globToRegExp(glob: string): RegExp {
+	const pattern = glob.replace(/^\.?\//, '').replace(/\/+$/, '');
+	if (!/[*?{]/.test(pattern)) {
+		return new RegExp(`^${escapeRegExp(pattern)}(?:/.*)?$`);
+	}
+
+	let source = '';
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === '*' && pattern[i + 1] === '*') {
+			const slash = pattern[i + 2] === '/';
+			source += slash ? '(?:.*/)?' : '.*';
+			i += slash ? 2 : 1;
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else if (char === '{') {
+			const end = pattern.indexOf('}', i);
+			if (end < 0) {
+				source += '\\{';
+				continue;
+			}
+			source += `(?:${pattern.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+			i = end;
+		} else {
+			source += escapeRegExp(char);
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+function toPatternList(value: unknown, field: string): string[] {
+	const list = typeof value === 'string' ? [value] : value;
+	if (!Array.isArray(list) || list.length === 0 || !list.every(p => typeof p === 'string' && p.length > 0)) {
+		throw new Error(`${field} must be a glob or a non-empty list of globs`);
+	}
+	return list;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSeverity(value: unknown): value is RuleSeverity {
+	return value === 'error' || value === 'warning' || value === 'information';
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.+^$()|[\]\\*?{}]/g, '\\$&');
+}
@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+import { CallDirection, DependencyLink, DependencyNode, ImpactAnalysis } from './types';
+import { CALLABLE_KINDS, symbolKindToNodeType } from './symbols';
+import { classifyFile } from './classification';
+import { stableNodeId } from './impactEngine';
+
+// ─── Call Hierarchy Analysis ─────────────────────────────────
+
+const MODULE_KINDS = new Set([
+	vscode.SymbolKind.File,
+	vscode.SymbolKind.Module,
+	vscode.SymbolKind.Namespace,
+	vscode.SymbolKind.Package
+]);
+
+interface CallGraph {
+	nodes: DependencyNode[];
+	links: DependencyLink[];
+	/** Nodes keyed by `callItemKey` */
+	itemNodes: Map<string, DependencyNode>;
+	linkKeys: Set<string>;
+	callSites: number;
+	idCounts: Map<string, number>;
+}
+
+/**
+ * Builds a caller → callee graph around the symbol at `position` using the call hierarchy
+ * provider. Unlike the reference graph every edge is a real call, pointing from caller to callee.
+ * Returns undefined when the language has no call hierarchy for the position. A cancelled
+ * `token` stops the walk early; the partial result is only good for discarding.
+ */
+export async function buildCallHierarchyAnalysis(
+	uri: vscode.Uri,
+	position: vscode.Position,
+	direction: CallDirection,
+	maxDepth: number,
+	token?: vscode.CancellationToken
+): Promise<ImpactAnalysis | undefined> {
+	const items = await vscode.commands.executeCommand<vscode.CallHierarchyItem[]>(
+		'vscode.prepareCallHierarchy',
+		uri,
+		position
+	);
+	if (!items || items.length === 0) { return undefined; }
+
+	const rootItem = items[0];
+	const rootFileName = vscode.workspace.asRelativePath(rootItem.uri);
+	const rootNode: DependencyNode = {
+		id: 'root',
+		name: rootItem.name,
+		fileName: rootFileName,
+		uri: rootItem.uri.fsPath,
+		line: rootItem.selectionRange.start.line + 1,
+		type: 'symbol',
+		references: 0,
+		isRoot: true,
+		depth: 0
+	};
+
+	const graph: CallGraph = {
+		nodes: [rootNode],
+		links: [],
+		itemNodes: new Map([[callItemKey(rootItem), rootNode]]),
+		linkKeys: new Set(),
+		callSites: 0,
+		idCounts: new Map()
+	};
+
+	let reachedDepth = 0;
+	if (direction !== 'outgoing') {
+		reachedDepth = Math.max(reachedDepth, await walkCalls(graph, rootItem, 'incoming', maxDepth, token));
+	}
+	if (direction !== 'incoming') {
+		reachedDepth = Math.max(reachedDepth, await walkCalls(graph, rootItem, 'outgoing', maxDepth, token));
+	}
+	rootNode.references = graph.callSites;
+
+	return {
+		symbol: rootItem.name,
+		sourceFile: rootFileName,
+		affectedFiles: new Set(graph.nodes.filter(n => !n.isRoot).map(n => n.uri)).size,
+		totalReferences: graph.callSites,
+		maxDepth: reachedDepth,
+		nodes: graph.nodes,
+		links: graph.links,
+		callDirection: direction
+	};
+}
+
+/** Breadth-first walk of callers or callees; returns the deepest hop that produced a node */
+async function walkCalls(
+	graph: CallGraph,
+	rootItem: vscode.CallHierarchyItem,
+	direction: 'incoming' | 'outgoing',
+	maxDepth: number,
+	token: vscode.CancellationToken | undefined
+): Promise<number> {
+	const expanded = new Set<string>();
+	let reachedDepth = 0;
+	let frontier = [rootItem];
+
+	for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+		const next: vscode.CallHierarchyItem[] = [];
+
+		for (const item of frontier) {
+			if (token?.isCancellationRequested) { return reachedDepth; }
+			const key = callItemKey(item);
+			if (expanded.has(key)) { continue; }
+			expanded.add(key);
+
+			const itemNode = graph.itemNodes.get(key)!;
+			const calls = direction === 'incoming'
+				? await vscode.commands.executeCommand<vscode.CallHierarchyIncomingCall[]>('vscode.provideIncomingCalls', item)
+				: await vscode.commands.executeCommand<vscode.CallHierarchyOutgoingCall[]>('vscode.provideOutgoingCalls', item);
+
+			for (const call of calls ?? []) {
+				const other = 'from' in call ? call.from : call.to;
+				const { node, created } = getOrAddItemNode(graph, other, depth);
+				node.references += call.fromRanges.length;
+				graph.callSites += call.fromRanges.length;
+
+				// Call sites are in the caller's file in both directions
+				const line = call.fromRanges.length > 0 ? call.fromRanges[0].start.line + 1 : undefined;
+				if (direction === 'incoming') {
+					addCallLink(graph, other, node.id, itemNode.id, line);
+				} else {
+					addCallLink(graph, item, itemNode.id, node.id, line);
+				}
+
+				if (created) {
+					next.push(other);
+					reachedDepth = depth;
+				}
+			}
+		}
+
+		frontier = next;
+	}
+
+	return reachedDepth;
+}
+
+function getOrAddItemNode(
+	graph: CallGraph,
+	item: vscode.CallHierarchyItem,
+	depth: number
+): { node: DependencyNode; created: boolean } {
+	const key = callItemKey(item);
+	const existing = graph.itemNodes.get(key);
+	if (existing) { return { node: existing, created: false }; }
+
+	const baseName = item.uri.fsPath.split(/[\\/]/).pop() || 'unknown';
+	const name = item.name + (CALLABLE_KINDS.has(item.kind) ? '()' : '');
+	const node: DependencyNode = {
+		id: stableNodeId(graph, `call:${item.uri.fsPath}#${name}`),
+		name,
+		fileName: vscode.workspace.asRelativePath(item.uri),
+		uri: item.uri.fsPath,
+		line: item.selectionRange.start.line + 1,
+		type: classifyFile(baseName) === 'test' ? 'test' : symbolKindToNodeType(item.kind),
+		references: 0,
+		isRoot: false,
+		depth
+	};
+	graph.itemNodes.set(key, node);
+	graph.nodes.push(node);
+	return { node, created: true };
+}
+
+/** Calls from tests are `tests` edges; calls made by module-level code run at import time, so they are `imports` */
+function addCallLink(graph: CallGraph, caller: vscode.CallHierarchyItem, source: string, target: string, line?: number) {
+	const linkKey = `${source}->${target}`;
+	if (graph.linkKeys.has(linkKey)) { return; }
+	graph.linkKeys.add(linkKey);
+
+	const callerFile = caller.uri.fsPath.split(/[\\/]/).pop() || 'unknown';
+	const type: DependencyLink['type'] = classifyFile(callerFile) === 'test' ? 'tests'
+		: MODULE_KINDS.has(caller.kind) ? 'imports'
+		: 'uses';
+	graph.links.push(line === undefined ? { source, target, type } : { source, target, type, line });
+}
+
+function callItemKey(item: vscode.CallHierarchyItem): string {
+	const { line, character } = item.selectionRange.start;
+	return `${item.uri.toString()}#${line}:${character}`;
+}
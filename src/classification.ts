@@ -0,0 +1,20 @@
+import { DependencyNode } from './types';
+
+// ─── Classification ──────────────────────────────────────────
+
+export function classifyFile(fileName: string): DependencyNode['type'] {
+	if (/\.(test|spec)\./i.test(fileName)) { return 'test'; }
+	if (/component/i.test(fileName) || /\.(vue|svelte|jsx|tsx)$/.test(fileName)) { return 'component'; }
+	if (/\.(d\.ts|types?\.)/.test(fileName)) { return 'type'; }
+	return 'function';
+}
+
+export function classifyLineContext(lineText: string, fileName: string): DependencyNode['type'] {
+	if (/\b(import|require|from)\b/.test(lineText)) { return 'import'; }
+	if (/\bclass\b/.test(lineText)) { return 'class'; }
+	if (/\b(interface|type)\b/.test(lineText)) { return 'type'; }
+	if (/\b(const|let|var)\b/.test(lineText)) { return 'variable'; }
+	if (/\b(function|=>)\b/.test(lineText)) { return 'function'; }
+	if (/\b(it|describe|test|expect)\b/.test(lineText)) { return 'test'; }
+	return classifyFile(fileName);
+}
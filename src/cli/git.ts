@@ -0,0 +1,49 @@
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+// ─── Git ─────────────────────────────────────────────────────
+
+const execFileAsync = promisify(execFile);
+
+const CHURN_WINDOW_DAYS = 90;
+const CHURN_MAX_COMMITS = 50;
+
+async function git(cwd: string, args: string[]): Promise<string> {
+	const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+	return stdout;
+}
+
+/** Root of the repository containing the directory, or undefined outside a repository */
+export async function findRepositoryRoot(cwd: string): Promise<string | undefined> {
+	try {
+		return path.resolve((await git(cwd, ['rev-parse', '--show-toplevel'])).trim());
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Files changed by a diff range, as accepted by `git diff`: `main` compares the working tree
+ * with a branch, `main...HEAD` the commits of the current branch. Deleted files are left out.
+ */
+export async function listChangedFiles(root: string, range: string): Promise<string[]> {
+	const output = await git(root, ['diff', '--name-only', '--diff-filter=d', range, '--']);
+	return output.split('\n').filter(Boolean).map(file => path.join(root, file));
+}
+
+export async function diffFile(root: string, range: string, filePath: string): Promise<string> {
+	return git(root, ['diff', '-U0', range, '--', filePath]);
+}
+
+/** Commits that touched the file recently; 0 for untracked files */
+export async function countRecentCommits(root: string, filePath: string): Promise<number> {
+	try {
+		const output = await git(root, [
+			'log', `--since=${CHURN_WINDOW_DAYS}.days.ago`, `--max-count=${CHURN_MAX_COMMITS}`, '--format=%H', '--', filePath
+		]);
+		return output.split('\n').filter(Boolean).length;
+	} catch {
+		return 0;
+	}
+}
@@ -0,0 +1,135 @@
+import * as path from 'path';
+import { ImpactAnalysis } from '../types';
+import { mergeImpactAnalyses } from '../analysisMerge';
+import { parseChangedLines } from '../diffParser';
+import { ParsedModule, parseModule } from '../moduleParser';
+import { graphRiskFactors, isExported, rateBlastRadius, scoreNode } from '../riskScore';
+import {
+	EnclosingDeclaration,
+	ReferenceSource,
+	addReferencingFiles,
+	addRootKey,
+	addRootNode,
+	createImpactGraph,
+	definitionOnlyNodes,
+	expandTransitiveImpact,
+	toImpactAnalysis
+} from '../impactEngine';
+import { Declaration, SourceLocation, TsProject } from './tsProject';
+import { countRecentCommits, diffFile, listChangedFiles } from './git';
+
+// ─── Headless Impact Analysis ────────────────────────────────
+
+/**
+ * Same graph as the editor's reference analysis, built by the same engine from the TypeScript
+ * language service instead of the editor's providers. Labels are relative to `root`.
+ */
+export async function analyzeDeclaration(
+	project: TsProject,
+	declaration: Declaration,
+	maxDepth: number,
+	root: string
+): Promise<ImpactAnalysis> {
+	const graph = createImpactGraph();
+	const source = createProjectReferenceSource(project, root);
+	const locations = project.findReferences(declaration.fileName, declaration.nameOffset);
+
+	const rootNode = addRootNode(graph, source, declaration.name, declaration.fileName, declaration.line + 1, locations.length);
+	addRootKey(graph, declarationKey(declaration));
+
+	const frontier = await addReferencingFiles(graph, source, declaration.fileName, locations);
+	const reachedDepth = await expandTransitiveImpact(graph, source, frontier, maxDepth);
+	return toImpactAnalysis(graph, declaration.name, rootNode.fileName, locations.length, reachedDepth);
+}
+
+/**
+ * Impact of every top-level declaration touched by a diff range, merged under one root like
+ * the editor's "Analyze Changes". Only the root is left when no project source declaration changed.
+ */
+export async function analyzeDiff(
+	project: TsProject,
+	root: string,
+	range: string,
+	maxDepth: number
+): Promise<ImpactAnalysis> {
+	const analyses: ImpactAnalysis[] = [];
+
+	for (const filePath of await listChangedFiles(root, range)) {
+		const fileName = project.normalize(filePath);
+		if (!project.contains(fileName)) { continue; }
+
+		const lines = parseChangedLines(await diffFile(root, range, filePath));
+		for (const declaration of project.topLevelDeclarations(fileName)) {
+			if (lines.some(line => declaration.startLine <= line && line <= declaration.endLine)) {
+				analyses.push(await analyzeDeclaration(project, declaration, maxDepth, root));
+			}
+		}
+	}
+
+	return mergeImpactAnalyses(`Changes in ${range}`, root, analyses);
+}
+
+/** Scores nodes and the blast radius like the editor, with churn read from the repository when there is one */
+export async function assessHeadlessRisk(analysis: ImpactAnalysis, project: TsProject, root: string | undefined): Promise<void> {
+	const factors = graphRiskFactors(analysis.nodes, analysis.links, true);
+	const modules = new Map<string, ParsedModule | undefined>();
+	const churn = new Map<string, number>();
+
+	// The declaring file is no dependent of the symbol unless it also references it
+	const definitionOnly = definitionOnlyNodes(analysis.links);
+	const scores: number[] = [];
+	for (const node of analysis.nodes) {
+		if (node.isRoot || definitionOnly.has(node.id)) { continue; }
+
+		if (!modules.has(node.uri)) {
+			const text = project.getText(node.uri);
+			modules.set(node.uri, text === undefined ? undefined : parseModule(text));
+		}
+		if (!churn.has(node.uri)) {
+			churn.set(node.uri, root ? await countRecentCommits(root, node.uri) : 0);
+		}
+
+		const { fanOut, tested } = factors.get(node.id)!;
+		node.risk = scoreNode({
+			fanOut,
+			depth: node.depth,
+			exported: isExported(node, modules.get(node.uri)),
+			tested,
+			churn: churn.get(node.uri)!,
+			isTest: node.type === 'test'
+		});
+		scores.push(node.risk);
+	}
+
+	analysis.risk = rateBlastRadius(scores, analysis.affectedFiles);
+}
+
+function createProjectReferenceSource(project: TsProject, root: string): ReferenceSource<SourceLocation, Declaration> {
+	return {
+		filePath: location => location.fileName,
+		line: location => location.line,
+		findEnclosing: async location => {
+			const enclosing = project.findEnclosingDeclaration(location.fileName, location.offset);
+			return enclosing && toEnclosingDeclaration(enclosing);
+		},
+		findReferences: async ({ declaration }) => project.findReferences(declaration.fileName, declaration.nameOffset),
+		lineText: async location => project.lineText(location.fileName, location.line),
+		relativePath: filePath => path.relative(root, filePath).split(path.sep).join('/'),
+		isCancelled: () => false
+	};
+}
+
+function toEnclosingDeclaration(declaration: Declaration): EnclosingDeclaration<Declaration> {
+	return {
+		key: declarationKey(declaration),
+		name: declaration.name,
+		filePath: declaration.fileName,
+		line: declaration.line,
+		type: declaration.type,
+		declaration
+	};
+}
+
+function declarationKey(declaration: Declaration): string {
+	return `${declaration.fileName}#${declaration.nameOffset}`;
+}
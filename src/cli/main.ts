@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { ImpactAnalysis } from '../types';
+import { exportAnalysis } from '../analysisExport';
+import { mergeImpactAnalyses } from '../analysisMerge';
+import { CliOptions, USAGE, findExceededThresholds, parseCliOptions } from './options';
+import { TsProject, loadTypeScript } from './tsProject';
+import { analyzeDeclaration, analyzeDiff, assessHeadlessRisk } from './headlessImpact';
+import { findRepositoryRoot } from './git';
+
+// ─── Headless CLI ────────────────────────────────────────────
+
+/** Exit codes: 0 passed, 1 invalid usage or failed analysis, 2 a threshold was exceeded */
+async function main(argv: string[]): Promise<number> {
+	let options: CliOptions | undefined;
+	try {
+		options = parseCliOptions(argv);
+	} catch (err) {
+		console.error(`codeweb-impact: ${(err as Error).message}\n\n${USAGE}`);
+		return 1;
+	}
+	if (!options) {
+		console.log(USAGE);
+		return 0;
+	}
+
+	const projectPath = path.resolve(options.project);
+	const projectDir = fs.statSync(projectPath).isDirectory() ? projectPath : path.dirname(projectPath);
+	const project = TsProject.open(loadTypeScript(projectDir), projectPath);
+	const root = await findRepositoryRoot(projectDir);
+
+	const analysis = await runAnalysis(project, root, projectDir, options);
+	// An empty report is still written, so later CI steps find one in the requested format
+	if (options.target.kind === 'diff' && analysis.nodes.length === 1) {
+		console.error(`codeweb-impact: no declarations of ${project.configFile} changed`);
+	} else {
+		if (analysis.affectedFiles === 0) {
+			console.error('codeweb-impact: no references found');
+		}
+		await assessHeadlessRisk(analysis, project, root);
+	}
+
+	const report = exportAnalysis(analysis, options.format, filePath => path.relative(process.cwd(), filePath).split(path.sep).join('/'));
+	if (options.output) {
+		fs.writeFileSync(options.output, report);
+	} else {
+		process.stdout.write(report);
+	}
+
+	const exceeded = findExceededThresholds(analysis, options);
+	exceeded.forEach(reason => console.error(`codeweb-impact: ${reason}`));
+	return exceeded.length > 0 ? 2 : 0;
+}
+
+/** Labels are relative to the repository root, like workspace-relative paths in the editor, or else to the project */
+async function runAnalysis(
+	project: TsProject,
+	root: string | undefined,
+	projectDir: string,
+	options: CliOptions
+): Promise<ImpactAnalysis> {
+	const { target, depth } = options;
+	const labelRoot = root ?? projectDir;
+
+	switch (target.kind) {
+		case 'diff': {
+			if (!root) { throw new Error('--diff needs the project to be inside a git repository'); }
+			return analyzeDiff(project, root, target.range, depth);
+		}
+		case 'position': {
+			const fileName = project.normalize(target.file);
+			if (!project.contains(fileName)) { throw new Error(`${target.file} is not part of ${project.configFile}`); }
+
+			const declaration = target.character === undefined
+				? project.declarationOnLine(fileName, target.line - 1)
+				: project.findDefinition(fileName, project.offsetAt(fileName, target.line - 1, target.character - 1));
+			if (!declaration) { throw new Error(`No declaration at ${target.file}:${target.line}`); }
+			return analyzeDeclaration(project, declaration, depth, labelRoot);
+		}
+		case 'symbol': {
+			const file = target.file && project.normalize(target.file);
+			const declarations = project.findDeclarations(target.name).filter(d => !file || d.fileName === file);
+			if (declarations.length === 0) { throw new Error(`No declaration named ${target.name} in ${project.configFile}`); }
+
+			// Overloads and same-named declarations in several files are analyzed together
+			const analyses = await Promise.all(declarations.map(d => analyzeDeclaration(project, d, depth, labelRoot)));
+			return analyses.length === 1 ? analyses[0] : mergeImpactAnalyses(target.name, declarations[0].fileName, analyses);
+		}
+	}
+}
+
+main(process.argv.slice(2)).then(
+	code => { process.exitCode = code; },
+	err => {
+		console.error(`codeweb-impact: ${(err as Error).message}`);
+		process.exitCode = 1;
+	}
+);
@@ -0,0 +1,124 @@
+import { parseArgs } from 'util';
+import { ImpactAnalysis, RiskRating } from '../types';
+
+// ─── Command Line Options ────────────────────────────────────
+
+export type CliTarget =
+	| { kind: 'symbol'; name: string; file?: string }
+	/** `line` and `character` are one-based, as editors and compilers print them */
+	| { kind: 'position'; file: string; line: number; character?: number }
+	| { kind: 'diff'; range: string };
+
+export interface CliOptions {
+	target: CliTarget;
+	/** tsconfig.json / jsconfig.json, or a directory to search upwards from */
+	project: string;
+	format: 'json' | 'markdown';
+	depth: number;
+	/** Fail when the blast radius is rated at least this high */
+	failOn?: RiskRating;
+	/** Fail when more files than this are affected */
+	maxFiles?: number;
+	/** Write the report to this file instead of stdout */
+	output?: string;
+}
+
+const RATINGS: RiskRating[] = ['low', 'medium', 'high', 'critical'];
+
+export const USAGE = `Usage: codeweb-impact <target> [options]
+
+Targets (exactly one):
+  --symbol <name>        Declaration to analyze, e.g. formatDate or UserService.save
+  --file <path>          With --symbol: only the declaration in this file
+  --at <file:line[:col]> Declaration at a position (without a column: declared on that line)
+  --diff <range>         Every declaration changed by a git diff range, e.g. origin/main...HEAD
+
+Options:
+  --project <path>       tsconfig.json / jsconfig.json or a directory (default: .)
+  --format <format>      json or markdown (default: markdown)
+  --depth <n>            Hops of transitive impact, 1-5 (default: 2)
+  --fail-on <rating>     Exit with 2 when the blast radius is rated low, medium, high or critical or above
+  --max-files <n>        Exit with 2 when more than n files are affected
+  --output <file>        Write the report to a file instead of stdout
+  --help                 Show this help`;
+
+/** Throws an Error describing the first invalid argument; returns undefined for `--help` */
+export function parseCliOptions(argv: string[]): CliOptions | undefined {
+	const { values } = parseArgs({
+		args: argv,
+		options: {
+			symbol: { type: 'string' },
+			file: { type: 'string' },
+			at: { type: 'string' },
+			diff: { type: 'string' },
+			project: { type: 'string' },
+			format: { type: 'string' },
+			depth: { type: 'string' },
+			'fail-on': { type: 'string' },
+			'max-files': { type: 'string' },
+			output: { type: 'string' },
+			help: { type: 'boolean', short: 'h' }
+		}
+	});
+	if (values.help) { return undefined; }
+
+	const targets = [values.symbol, values.at, values.diff].filter(v => v !== undefined);
+	if (targets.length !== 1) { throw new Error('Pass exactly one of --symbol, --at or --diff'); }
+	if (values.file !== undefined && values.symbol === undefined) { throw new Error('--file only applies to --symbol'); }
+
+	const format = values.format ?? 'markdown';
+	if (format !== 'json' && format !== 'markdown') { throw new Error(`Unknown format "${format}"; use json or markdown`); }
+
+	const depth = parseInteger(values.depth ?? '2', '--depth');
+	if (depth < 1 || depth > 5) { throw new Error('--depth must be between 1 and 5'); }
+
+	const failOn = values['fail-on'];
+	if (failOn !== undefined && !RATINGS.includes(failOn as RiskRating)) {
+		throw new Error(`Unknown rating "${failOn}"; use ${RATINGS.join(', ')}`);
+	}
+
+	return {
+		target: parseTarget(values),
+		project: values.project ?? '.',
+		format,
+		depth,
+		failOn: failOn as RiskRating | undefined,
+		maxFiles: values['max-files'] !== undefined ? parseInteger(values['max-files'], '--max-files') : undefined,
+		output: values.output
+	};
+}
+
+/** Reasons the analysis breaks the configured thresholds; empty when it passes */
+export function findExceededThresholds(analysis: ImpactAnalysis, options: CliOptions): string[] {
+	const exceeded: string[] = [];
+	if (options.failOn && analysis.risk && RATINGS.indexOf(analysis.risk.rating) >= RATINGS.indexOf(options.failOn)) {
+		exceeded.push(`Blast radius is ${analysis.risk.rating} (${analysis.risk.score}/100), failing on ${options.failOn}`);
+	}
+	if (options.maxFiles !== undefined && analysis.affectedFiles > options.maxFiles) {
+		exceeded.push(`${analysis.affectedFiles} files affected, more than the allowed ${options.maxFiles}`);
+	}
+	return exceeded;
+}
+
+function parseTarget(values: { symbol?: string; file?: string; at?: string; diff?: string }): CliTarget {
+	if (values.symbol !== undefined) {
+		return { kind: 'symbol', name: values.symbol, file: values.file };
+	}
+	if (values.diff !== undefined) {
+		return { kind: 'diff', range: values.diff };
+	}
+
+	const match = /^(.+?):(\d+)(?::(\d+))?$/.exec(values.at!);
+	if (!match) { throw new Error(`Expected --at <file:line[:column]>, got "${values.at}"`); }
+	return {
+		kind: 'position',
+		file: match[1],
+		line: parseInt(match[2], 10),
+		...(match[3] !== undefined ? { character: parseInt(match[3], 10) } : {})
+	};
+}
+
+function parseInteger(value: string, name: string): number {
+	if (!/^\d+$/.test(value)) { throw new Error(`${name} expects a whole number, got "${value}"`); }
+	return parseInt(value, 10);
+}
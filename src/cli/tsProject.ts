@@ -0,0 +1,304 @@
+import * as path from 'path';
+import { createRequire } from 'module';
+import type * as ts from 'typescript';
+import { DependencyNode } from '../types';
+
+// ─── TypeScript Project ──────────────────────────────────────
+
+export type TypeScript = typeof ts;
+
+/** Same split as the editor's symbol kinds: locals inside callables are not graph nodes */
+const CALLABLE_KINDS = new Set(['function', 'local function', 'method', 'constructor']);
+const VARIABLE_KINDS = new Set(['var', 'let', 'const', 'local var', 'property', 'getter', 'setter', 'enum member']);
+
+/** A reference or declaration site; `line` and `character` are zero-based */
+export interface SourceLocation {
+	fileName: string;
+	offset: number;
+	line: number;
+	character: number;
+}
+
+export interface Declaration {
+	fileName: string;
+	/** Display name such as `UserService.save()` */
+	name: string;
+	type: DependencyNode['type'];
+	/** Start of the declared name: identifies the declaration and is where its references are looked up */
+	nameOffset: number;
+	/** Zero-based line of the name */
+	line: number;
+	/** Zero-based lines the whole declaration spans */
+	startLine: number;
+	endLine: number;
+}
+
+/**
+ * Loads TypeScript from the analyzed project when it has its own, so results match the compiler
+ * it builds with, and falls back to the CLI's own `typescript` dependency.
+ */
+export function loadTypeScript(projectDir: string): TypeScript {
+	try {
+		return createRequire(path.join(projectDir, 'package.json'))('typescript');
+	} catch {
+		return require('typescript');
+	}
+}
+
+/**
+ * A language service over the files of a tsconfig.json or jsconfig.json project: the same
+ * engine behind the editor's reference and document symbol providers, without an editor.
+ */
+export class TsProject {
+	private readonly texts = new Map<string, string | undefined>();
+	private readonly trees = new Map<string, ts.NavigationTree>();
+
+	private constructor(
+		private readonly ts: TypeScript,
+		private readonly service: ts.LanguageService,
+		private readonly fileNames: Set<string>,
+		readonly configFile: string
+	) {}
+
+	/** Opens the project of a config file, or of the nearest config file at or above a directory */
+	static open(typescript: TypeScript, projectPath: string): TsProject {
+		const configFile = findConfigFile(typescript, projectPath);
+		const projectDir = path.dirname(configFile);
+		const { options, fileNames } = readProject(typescript, configFile, new Set());
+
+		const host: ts.LanguageServiceHost = {
+			getScriptFileNames: () => fileNames,
+			getScriptVersion: () => '0',
+			getScriptSnapshot: fileName => {
+				const text = typescript.sys.readFile(fileName);
+				return text === undefined ? undefined : typescript.ScriptSnapshot.fromString(text);
+			},
+			getCurrentDirectory: () => projectDir,
+			getCompilationSettings: () => options,
+			getDefaultLibFileName: defaultOptions => typescript.getDefaultLibFilePath(defaultOptions),
+			fileExists: typescript.sys.fileExists,
+			readFile: typescript.sys.readFile,
+			readDirectory: typescript.sys.readDirectory,
+			directoryExists: typescript.sys.directoryExists,
+			getDirectories: typescript.sys.getDirectories
+		};
+
+		const service = typescript.createLanguageService(host, typescript.createDocumentRegistry());
+		return new TsProject(typescript, service, new Set(fileNames), configFile);
+	}
+
+	/** Path in the form the language service uses (forward slashes) */
+	normalize(filePath: string): string {
+		return path.resolve(filePath).split(path.sep).join('/');
+	}
+
+	/** Whether the file is one of the project's own sources, as opposed to a library or declaration file */
+	contains(fileName: string): boolean {
+		return this.fileNames.has(fileName);
+	}
+
+	getText(fileName: string): string | undefined {
+		if (!this.texts.has(fileName)) {
+			this.texts.set(fileName, this.ts.sys.readFile(fileName));
+		}
+		return this.texts.get(fileName);
+	}
+
+	lineText(fileName: string, line: number): string {
+		return this.getText(fileName)?.split(/\r?\n/)[line] ?? '';
+	}
+
+	offsetAt(fileName: string, line: number, character: number): number {
+		const text = this.getText(fileName) ?? '';
+		return this.ts.getPositionOfLineAndCharacter(this.sourceFile(fileName), line, Math.min(character, text.length));
+	}
+
+	/** Every reference to the symbol at the offset, including its declaration, within the project's sources */
+	findReferences(fileName: string, offset: number): SourceLocation[] {
+		const seen = new Set<string>();
+		const locations: SourceLocation[] = [];
+
+		for (const symbol of this.service.findReferences(fileName, offset) ?? []) {
+			for (const ref of symbol.references) {
+				const key = `${ref.fileName}#${ref.textSpan.start}`;
+				if (seen.has(key) || !this.contains(ref.fileName)) { continue; }
+				seen.add(key);
+				locations.push(this.locationAt(ref.fileName, ref.textSpan.start));
+			}
+		}
+		return locations;
+	}
+
+	/** Declarations named `name` (or `Container.name`) in the project's sources */
+	findDeclarations(name: string): Declaration[] {
+		const parts = name.replace(/\(\)$/, '').split('.');
+		const member = parts.pop()!;
+		const container = parts.join('.');
+
+		return this.service.getNavigateToItems(member, undefined, undefined, true)
+			.filter(item => item.name === member && this.contains(item.fileName))
+			.filter(item => !container || item.containerName === container)
+			.map(item => this.declarationWithSpan(item.fileName, item.textSpan))
+			.filter((d): d is Declaration => d !== undefined);
+	}
+
+	/** Declaration of the symbol at the offset, as "Go to Definition" finds it, when it is a graph-level declaration */
+	findDefinition(fileName: string, offset: number): Declaration | undefined {
+		for (const definition of this.service.getDefinitionAtPosition(fileName, offset) ?? []) {
+			if (!this.contains(definition.fileName)) { continue; }
+			const declaration = this.findEnclosingDeclaration(definition.fileName, definition.textSpan.start);
+			if (declaration?.nameOffset === definition.textSpan.start) { return declaration; }
+		}
+		return undefined;
+	}
+
+	/** Innermost function, class or top-level declaration containing the offset (locals are skipped) */
+	findEnclosingDeclaration(fileName: string, offset: number): Declaration | undefined {
+		return this.findInnermost(this.navigationTree(fileName).childItems ?? [], fileName, offset, []);
+	}
+
+	/** Declarations directly at the top of the file */
+	topLevelDeclarations(fileName: string): Declaration[] {
+		return (this.navigationTree(fileName).childItems ?? [])
+			.filter(isDeclarationItem)
+			.map(item => this.toDeclaration(fileName, item, []));
+	}
+
+	/** Declaration whose name is on the line, preferring the innermost one */
+	declarationOnLine(fileName: string, line: number): Declaration | undefined {
+		let found: Declaration | undefined;
+		const visit = (items: ts.NavigationTree[], containers: ts.NavigationTree[]) => {
+			for (const item of items.filter(isDeclarationItem)) {
+				const declaration = this.toDeclaration(fileName, item, containers);
+				if (declaration.line === line && !isLocal(item, containers)) { found = declaration; }
+				visit(item.childItems ?? [], [...containers, item]);
+			}
+		};
+		visit(this.navigationTree(fileName).childItems ?? [], []);
+		return found;
+	}
+
+	private declarationWithSpan(fileName: string, span: ts.TextSpan): Declaration | undefined {
+		const visit = (items: ts.NavigationTree[], containers: ts.NavigationTree[]): Declaration | undefined => {
+			for (const item of items.filter(isDeclarationItem)) {
+				if (item.spans.some(s => s.start === span.start && s.length === span.length)) {
+					return isLocal(item, containers) ? undefined : this.toDeclaration(fileName, item, containers);
+				}
+				const inner = visit(item.childItems ?? [], [...containers, item]);
+				if (inner) { return inner; }
+			}
+			return undefined;
+		};
+		return visit(this.navigationTree(fileName).childItems ?? [], []);
+	}
+
+	private findInnermost(
+		items: ts.NavigationTree[],
+		fileName: string,
+		offset: number,
+		containers: ts.NavigationTree[]
+	): Declaration | undefined {
+		for (const item of items.filter(isDeclarationItem)) {
+			if (!item.spans.some(s => s.start <= offset && offset <= s.start + s.length)) { continue; }
+
+			const inner = this.findInnermost(item.childItems ?? [], fileName, offset, [...containers, item]);
+			if (inner) { return inner; }
+
+			return isLocal(item, containers) ? undefined : this.toDeclaration(fileName, item, containers);
+		}
+		return undefined;
+	}
+
+	private toDeclaration(fileName: string, item: ts.NavigationTree, containers: ts.NavigationTree[]): Declaration {
+		const nameOffset = item.nameSpan?.start ?? item.spans[0].start;
+		const start = Math.min(...item.spans.map(s => s.start));
+		const end = Math.max(...item.spans.map(s => s.start + s.length));
+		const suffix = CALLABLE_KINDS.has(item.kind) ? '()' : '';
+
+		return {
+			fileName,
+			name: [...containers, item].map(i => i.text).join('.') + suffix,
+			type: kindToNodeType(item.kind),
+			nameOffset,
+			line: this.locationAt(fileName, nameOffset).line,
+			startLine: this.locationAt(fileName, start).line,
+			endLine: this.locationAt(fileName, end).line
+		};
+	}
+
+	private locationAt(fileName: string, offset: number): SourceLocation {
+		const { line, character } = this.sourceFile(fileName).getLineAndCharacterOfPosition(offset);
+		return { fileName, offset, line, character };
+	}
+
+	private sourceFile(fileName: string): ts.SourceFile {
+		const sourceFile = this.service.getProgram()?.getSourceFile(fileName);
+		if (!sourceFile) { throw new Error(`${fileName} is not part of ${this.configFile}`); }
+		return sourceFile;
+	}
+
+	private navigationTree(fileName: string): ts.NavigationTree {
+		let tree = this.trees.get(fileName);
+		if (!tree) {
+			tree = this.service.getNavigationTree(fileName);
+			this.trees.set(fileName, tree);
+		}
+		return tree;
+	}
+}
+
+/** Imports (aliases) and anonymous functions or classes are not symbols, as in the editor's outline */
+function isDeclarationItem(item: ts.NavigationTree): boolean {
+	return item.kind !== 'alias' && item.text !== '<function>' && item.text !== '<class>';
+}
+
+function isLocal(item: ts.NavigationTree, containers: ts.NavigationTree[]): boolean {
+	return VARIABLE_KINDS.has(item.kind) && containers.some(c => CALLABLE_KINDS.has(c.kind));
+}
+
+function kindToNodeType(kind: string): DependencyNode['type'] {
+	switch (kind) {
+		case 'class':
+		case 'local class':
+			return 'class';
+		case 'interface':
+		case 'type':
+		case 'enum':
+			return 'type';
+		default:
+			return VARIABLE_KINDS.has(kind) ? 'variable' : 'function';
+	}
+}
+
+function findConfigFile(typescript: TypeScript, projectPath: string): string {
+	const resolved = path.resolve(projectPath);
+	if (typescript.sys.fileExists(resolved)) { return resolved; }
+
+	const configFile = typescript.findConfigFile(resolved, typescript.sys.fileExists, 'tsconfig.json')
+		?? typescript.findConfigFile(resolved, typescript.sys.fileExists, 'jsconfig.json');
+	if (!configFile) { throw new Error(`No tsconfig.json or jsconfig.json found at or above ${resolved}`); }
+	return configFile;
+}
+
+/** Options of the config file plus its source files and those of the projects it references */
+function readProject(
+	typescript: TypeScript,
+	configFile: string,
+	visited: Set<string>
+): { options: ts.CompilerOptions; fileNames: string[] } {
+	visited.add(configFile);
+	const { config, error } = typescript.readConfigFile(configFile, typescript.sys.readFile);
+	if (error) { throw new Error(typescript.flattenDiagnosticMessageText(error.messageText, '\n')); }
+
+	const parsed = typescript.parseJsonConfigFileContent(config, typescript.sys, path.dirname(configFile), undefined, configFile);
+	const fileNames = [...parsed.fileNames];
+
+	// Solution-style configs list no files of their own, only the projects they are built from
+	for (const reference of parsed.projectReferences ?? []) {
+		const referenced = typescript.resolveProjectReferencePath(reference);
+		if (visited.has(referenced) || !typescript.sys.fileExists(referenced)) { continue; }
+		fileNames.push(...readProject(typescript, referenced, visited).fileNames);
+	}
+
+	return { options: { ...parsed.options, allowJs: parsed.options.allowJs || configFile.endsWith('jsconfig.json') }, fileNames };
+}
@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import { DependencyLink, ImpactAnalysis } from './types';
+import { CyclicComponent, findCyclicComponents } from './graphAlgorithms';
+
+// ─── Dependency Cycles ───────────────────────────────────────
+
+/**
+ * Finds the cycles of an import or call graph and flags their nodes and edges, so the
+ * webview can draw them. Every edge inside a strongly connected component lies on a cycle,
+ * except type-only imports: they are gone at runtime, so they are left out of the search.
+ */
+export function markCycles(analysis: ImpactAnalysis): CyclicComponent[] {
+	const components = findCyclicComponents(analysis.nodes.map(n => n.id), analysis.links.filter(l => !l.typeOnly));
+	const componentOf = new Map<string, number>();
+	components.forEach((component, i) => component.nodes.forEach(id => componentOf.set(id, i)));
+
+	for (const node of analysis.nodes) {
+		node.cycle = componentOf.has(node.id);
+	}
+	for (const link of analysis.links) {
+		const component = componentOf.get(link.source);
+		link.cycle = !link.typeOnly && component !== undefined && component === componentOf.get(link.target);
+	}
+	return components;
+}
+
+/**
+ * Replaces the collection's contents with one problem per edge of each cycle, placed on the
+ * import statement or call site the edge comes from and spelling out the whole cycle from there.
+ */
+export function publishCycleDiagnostics(
+	collection: vscode.DiagnosticCollection,
+	analysis: ImpactAnalysis,
+	components: CyclicComponent[]
+) {
+	const nodes = new Map(analysis.nodes.map(n => [n.id, n]));
+	const links = new Map(analysis.links.map(l => [`${l.source}->${l.target}`, l]));
+	const byFile = new Map<string, vscode.Diagnostic[]>();
+	const seen = new Set<string>();
+	const kind = analysis.moduleGraph ? 'import' : 'call';
+
+	for (const cycle of components.flatMap(c => c.cycles)) {
+		cycle.forEach((id, i) => {
+			const source = nodes.get(id)!;
+			const link: DependencyLink | undefined = links.get(`${id}->${cycle[(i + 1) % cycle.length]}`);
+			const line = (link?.line ?? source.line) - 1;
+
+			const fromHere = [...cycle.slice(i), ...cycle.slice(0, i), id].map(member => nodes.get(member)!.name);
+			const message = `Circular ${kind}: ${fromHere.join(' → ')}`;
+			const key = `${source.uri}:${line}:${message}`;
+			if (seen.has(key)) { return; }
+			seen.add(key);
+
+			const diagnostic = new vscode.Diagnostic(
+				new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+				message,
+				kind === 'import' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Information
+			);
+			diagnostic.source = 'Dependency Impact';
+			if (!byFile.has(source.uri)) { byFile.set(source.uri, []); }
+			byFile.get(source.uri)!.push(diagnostic);
+		});
+	}
+
+	collection.clear();
+	for (const [filePath, diagnostics] of byFile) {
+		collection.set(vscode.Uri.file(filePath), diagnostics);
+	}
+}
@@ -0,0 +1,296 @@
+import * as vscode from 'vscode';
+import { ParsedModule, parseModule } from './moduleParser';
+import { EMPTY_RESOLVER_CONFIG, ResolverConfig, SOURCE_EXTENSIONS, resolveImport } from './moduleResolver';
+import { RESOLVER_CONFIG_GLOB, loadResolverConfig } from './resolverConfig';
+
+// ─── Dependency Index ────────────────────────────────────────
+
+const INDEX_VERSION = 3;
+const INDEX_FILE = 'dependency-index.json';
+export const SOURCE_GLOB = `**/*{${SOURCE_EXTENSIONS.join(',')}}`;
+export const EXCLUDE_GLOB = '**/{node_modules,.git,dist,out}/**';
+const EXCLUDED_PATH = /[\\/](node_modules|\.git|dist|out)[\\/]/;
+/** Larger files are almost always generated bundles */
+const MAX_FILE_SIZE = 1024 * 1024;
+
+interface IndexEntry extends ParsedModule {
+	mtime: number;
+}
+
+interface PersistedIndex {
+	version: number;
+	entries: Record<string, IndexEntry>;
+}
+
+/**
+ * Workspace-wide module graph (imports, exports and identifier occurrences per file), built
+ * once in the background, persisted under the extension's workspace storage and kept up to
+ * date from file system events. Answers "who references this exported symbol" without the
+ * language server; unsaved editors are parsed from their live text.
+ */
+export class DependencyIndex implements vscode.Disposable {
+	private readonly entries = new Map<string, IndexEntry>();
+	/** Files changed on disk that have not been re-indexed yet */
+	private readonly pending = new Set<string>();
+	private readonly overlays = new Map<string, { version: number; module: ParsedModule }>();
+	private readonly disposables: vscode.Disposable[] = [];
+	private resolverConfig: ResolverConfig = EMPTY_RESOLVER_CONFIG;
+	private ready = false;
+	private reindexTimer: ReturnType<typeof setTimeout> | undefined;
+	private persistTimer: ReturnType<typeof setTimeout> | undefined;
+
+	constructor(private readonly storageUri: vscode.Uri | undefined) {}
+
+	async initialize(): Promise<void> {
+		const watcher = vscode.workspace.createFileSystemWatcher(SOURCE_GLOB);
+		watcher.onDidCreate(uri => this.scheduleReindex(uri), undefined, this.disposables);
+		watcher.onDidChange(uri => this.scheduleReindex(uri), undefined, this.disposables);
+		watcher.onDidDelete(uri => {
+			this.entries.delete(uri.fsPath);
+			this.pending.delete(uri.fsPath);
+			this.schedulePersist();
+		}, undefined, this.disposables);
+		this.disposables.push(watcher);
+
+		// tsconfig paths and workspace packages decide where non-relative imports point
+		const configWatcher = vscode.workspace.createFileSystemWatcher(RESOLVER_CONFIG_GLOB);
+		const reloadConfig = async () => { this.resolverConfig = await loadResolverConfig(); };
+		configWatcher.onDidCreate(reloadConfig, undefined, this.disposables);
+		configWatcher.onDidChange(reloadConfig, undefined, this.disposables);
+		configWatcher.onDidDelete(reloadConfig, undefined, this.disposables);
+		this.disposables.push(configWatcher);
+
+		await vscode.window.withProgress(
+			{ location: vscode.ProgressLocation.Window, title: 'Indexing dependencies' },
+			async () => {
+				await reloadConfig();
+				const persisted = await this.load();
+				const files = await vscode.workspace.findFiles(SOURCE_GLOB, EXCLUDE_GLOB);
+
+				for (const uri of files) {
+					const cached = persisted[uri.fsPath];
+					const stat = await statFile(uri);
+					if (!stat) { continue; }
+
+					if (cached && cached.mtime === stat.mtime) {
+						this.entries.set(uri.fsPath, cached);
+					} else {
+						await this.indexFile(uri, stat);
+					}
+				}
+			}
+		);
+
+		this.ready = true;
+		await this.persist();
+		if (this.pending.size > 0) { await this.flushPending(); }
+	}
+
+	/**
+	 * References to the exported symbol `name` of `uri` (or to the export that `name` was imported
+	 * from), in the shape the reference provider returns. Undefined when the index cannot answer
+	 * reliably: still building, files awaiting re-index, `name` is not an export, or a file using
+	 * it declares the name again (a parameter or local), which only the language server can tell
+	 * apart. With `declaredAt`, the export must be declared on that line, which rules out
+	 * same-named members.
+	 */
+	lookupReferences(uri: vscode.Uri, name: string, declaredAt?: vscode.Position): vscode.Location[] | undefined {
+		if (!this.ready || this.pending.size > 0) { return undefined; }
+
+		const dirty = new Map(vscode.workspace.textDocuments.filter(d => d.isDirty).map(d => [d.uri.fsPath, d]));
+		const origin = this.moduleFor(uri.fsPath, dirty);
+		if (!origin) { return undefined; }
+
+		let definingFile = uri.fsPath;
+		let exported = origin.exports.find(e => (e.local === name || e.name === name)
+			&& (!declaredAt || e.line === declaredAt.line));
+
+		if (!exported && !declaredAt) {
+			// The name may be imported into this file: answer for the module that defines it
+			for (const imp of origin.imports) {
+				const binding = imp.reexport ? undefined : imp.bindings.find(b => b.local === name && b.imported !== '*');
+				if (!binding) { continue; }
+
+				const target = this.resolve(uri.fsPath, imp.specifier);
+				exported = target ? this.moduleFor(target, dirty)?.exports.find(e => e.name === binding.imported) : undefined;
+				if (exported) { definingFile = target!; }
+				break;
+			}
+		}
+		if (!exported) { return undefined; }
+
+		const definingModule = this.moduleFor(definingFile, dirty)!;
+		if (definingModule.shadowed.includes(exported.local)) { return undefined; }
+		const locations = toLocations(definingFile, definingModule.occurrences[exported.local] ?? []);
+		if (locations.length === 0) {
+			locations.push(toLocation(definingFile, [exported.line, exported.character]));
+		}
+		return this.collectImporters(definingFile, exported.name, locations, dirty, new Set()) ? locations : undefined;
+	}
+
+	/** Every indexed module with the resolver config, or undefined while the index is not fresh */
+	snapshot(): { modules: ReadonlyMap<string, ParsedModule>; config: ResolverConfig } | undefined {
+		if (!this.ready || this.pending.size > 0) { return undefined; }
+		return { modules: this.entries, config: this.resolverConfig };
+	}
+
+	dispose() {
+		if (this.reindexTimer) { clearTimeout(this.reindexTimer); }
+		if (this.persistTimer) { clearTimeout(this.persistTimer); }
+		this.disposables.forEach(d => d.dispose());
+	}
+
+	/**
+	 * Adds every place that imports `exportedName` from `definingFile`, following re-exports through
+	 * barrels. False when an importer shadows the imported name, so the locations are incomplete.
+	 */
+	private collectImporters(
+		definingFile: string,
+		exportedName: string,
+		locations: vscode.Location[],
+		dirty: Map<string, vscode.TextDocument>,
+		visited: Set<string>
+	): boolean {
+		const visitKey = `${definingFile}#${exportedName}`;
+		if (visited.has(visitKey)) { return true; }
+		visited.add(visitKey);
+
+		for (const filePath of this.entries.keys()) {
+			if (filePath === definingFile) { continue; }
+			const module = this.moduleFor(filePath, dirty)!;
+
+			for (const imp of module.imports) {
+				if (this.resolve(filePath, imp.specifier) !== definingFile) { continue; }
+
+				for (const binding of imp.bindings) {
+					if (imp.reexport) {
+						const passesThrough = binding.imported === exportedName || (binding.imported === '*' && binding.local === '*');
+						if (passesThrough) {
+							locations.push(toLocation(filePath, [imp.line, 0]));
+							const reexported = binding.local === '*' ? exportedName : binding.local;
+							if (!this.collectImporters(filePath, reexported, locations, dirty, visited)) { return false; }
+						}
+					} else if (binding.imported === exportedName) {
+						if (module.shadowed.includes(binding.local)) { return false; }
+						locations.push(...toLocations(filePath, module.occurrences[binding.local] ?? []));
+					} else if (binding.imported === '*') {
+						const members = module.occurrences[`${binding.local}.${exportedName}`];
+						if (members) {
+							locations.push(toLocation(filePath, [imp.line, 0]), ...toLocations(filePath, members));
+						}
+					}
+				}
+			}
+		}
+		return true;
+	}
+
+	private moduleFor(filePath: string, dirty: Map<string, vscode.TextDocument>): ParsedModule | undefined {
+		const document = dirty.get(filePath);
+		if (!document) { return this.entries.get(filePath); }
+
+		const overlay = this.overlays.get(filePath);
+		if (overlay?.version === document.version) { return overlay.module; }
+
+		const module = parseModule(document.getText());
+		this.overlays.set(filePath, { version: document.version, module });
+		return module;
+	}
+
+	private resolve(fromFile: string, specifier: string): string | undefined {
+		return resolveImport(fromFile, specifier, filePath => this.entries.has(filePath), this.resolverConfig);
+	}
+
+	private async indexFile(uri: vscode.Uri, stat: vscode.FileStat) {
+		try {
+			const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+			this.entries.set(uri.fsPath, { ...parseModule(text), mtime: stat.mtime });
+		} catch {
+			this.entries.delete(uri.fsPath);
+		}
+		this.overlays.delete(uri.fsPath);
+	}
+
+	private scheduleReindex(uri: vscode.Uri) {
+		if (EXCLUDED_PATH.test(uri.fsPath)) { return; }
+		this.pending.add(uri.fsPath);
+		if (!this.ready) { return; }
+
+		if (this.reindexTimer) { clearTimeout(this.reindexTimer); }
+		this.reindexTimer = setTimeout(() => this.flushPending(), 300);
+	}
+
+	private async flushPending() {
+		for (const filePath of [...this.pending]) {
+			const uri = vscode.Uri.file(filePath);
+			const stat = await statFile(uri);
+			if (stat) {
+				await this.indexFile(uri, stat);
+			} else {
+				this.entries.delete(filePath);
+			}
+			this.pending.delete(filePath);
+		}
+		this.schedulePersist();
+	}
+
+	private schedulePersist() {
+		if (this.persistTimer) { clearTimeout(this.persistTimer); }
+		this.persistTimer = setTimeout(() => this.persist(), 2000);
+	}
+
+	private async load(): Promise<Record<string, IndexEntry>> {
+		if (!this.storageUri) { return {}; }
+		try {
+			const raw = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.storageUri, INDEX_FILE));
+			const persisted = JSON.parse(new TextDecoder().decode(raw)) as PersistedIndex;
+			return persisted.version === INDEX_VERSION ? persisted.entries : {};
+		} catch {
+			return {};
+		}
+	}
+
+	private async persist() {
+		if (!this.storageUri) { return; }
+		const persisted: PersistedIndex = { version: INDEX_VERSION, entries: Object.fromEntries(this.entries) };
+		try {
+			await vscode.workspace.fs.createDirectory(this.storageUri);
+			await vscode.workspace.fs.writeFile(
+				vscode.Uri.joinPath(this.storageUri, INDEX_FILE),
+				new TextEncoder().encode(JSON.stringify(persisted))
+			);
+		} catch (err) {
+			console.error('Could not persist dependency index', err);
+		}
+	}
+}
+
+/** References from the index when it can answer, otherwise from the language server */
+export async function findReferences(
+	uri: vscode.Uri,
+	position: vscode.Position,
+	name: string,
+	index: DependencyIndex | undefined,
+	declaredAt?: vscode.Position
+): Promise<vscode.Location[]> {
+	return index?.lookupReferences(uri, name, declaredAt)
+		?? await vscode.commands.executeCommand<vscode.Location[]>('vscode.executeReferenceProvider', uri, position)
+		?? [];
+}
+
+async function statFile(uri: vscode.Uri): Promise<vscode.FileStat | undefined> {
+	try {
+		const stat = await vscode.workspace.fs.stat(uri);
+		return stat.size <= MAX_FILE_SIZE ? stat : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function toLocation(filePath: string, [line, character]: [number, number]): vscode.Location {
+	return new vscode.Location(vscode.Uri.file(filePath), new vscode.Position(line, character));
+}
+
+function toLocations(filePath: string, positions: [number, number][]): vscode.Location[] {
+	return positions.map(position => toLocation(filePath, position));
+}
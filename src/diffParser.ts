@@ -0,0 +1,36 @@
+// ─── Unified Diff Parsing ────────────────────────────────────
+
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Zero-based lines of the new file version touched by a unified diff: every added or
+ * modified line, plus the line a pure deletion collapsed onto.
+ */
+export function parseChangedLines(diff: string): number[] {
+	const changed = new Set<number>();
+	let newLine = -1;
+
+	for (const line of diff.split(/\r?\n/)) {
+		if (line.startsWith('diff ')) {
+			newLine = -1;
+			continue;
+		}
+		const hunk = HUNK_HEADER.exec(line);
+		if (hunk) {
+			newLine = parseInt(hunk[1], 10) - 1;
+			continue;
+		}
+		if (newLine < 0 || line.startsWith('\\')) { continue; }
+
+		if (line.startsWith('+')) {
+			changed.add(newLine);
+			newLine++;
+		} else if (line.startsWith('-')) {
+			changed.add(Math.max(newLine, 0));
+		} else {
+			newLine++;
+		}
+	}
+
+	return [...changed].sort((a, b) => a - b);
+}
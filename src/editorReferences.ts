@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+import { EnclosingDeclaration, ReferenceSource } from './impactEngine';
+import {
+	DocumentSymbolCache,
+	EnclosingSymbol,
+	findEnclosingSymbol,
+	qualifiedSymbolName,
+	symbolKey,
+	symbolKindToNodeType
+} from './symbols';
+import { DependencyIndex, findReferences } from './dependencyIndex';
+
+// ─── Editor Reference Source ─────────────────────────────────
+
+export interface EditorDeclaration extends EnclosingSymbol {
+	uri: vscode.Uri;
+}
+
+export type EditorReferenceSource = ReferenceSource<vscode.Location, EditorDeclaration>;
+
+/**
+ * The impact engine's view of the editor: references from the language's reference provider
+ * (or the dependency index when it is fresh) and declarations from its document symbols.
+ */
+export function createEditorReferenceSource(index?: DependencyIndex, token?: vscode.CancellationToken): EditorReferenceSource {
+	const symbolCache: DocumentSymbolCache = new Map();
+	return {
+		filePath: location => location.uri.fsPath,
+		line: location => location.range.start.line,
+		findEnclosing: async location => {
+			const enclosing = await findEnclosingSymbol(location, symbolCache);
+			return enclosing && toEnclosingDeclaration(location.uri, enclosing);
+		},
+		findReferences: ({ declaration: { uri, symbol } }) => {
+			const declaredAt = symbol.selectionRange.start;
+			return findReferences(uri, declaredAt, symbol.name, index, declaredAt);
+		},
+		lineText: async location => {
+			try {
+				const doc = await vscode.workspace.openTextDocument(location.uri);
+				return doc.lineAt(location.range.start.line).text;
+			} catch {
+				return undefined;
+			}
+		},
+		relativePath: filePath => vscode.workspace.asRelativePath(filePath),
+		isCancelled: () => token?.isCancellationRequested ?? false
+	};
+}
+
+function toEnclosingDeclaration(uri: vscode.Uri, enclosing: EnclosingSymbol): EnclosingDeclaration<EditorDeclaration> {
+	return {
+		key: symbolKey(uri, enclosing.symbol),
+		name: qualifiedSymbolName(enclosing),
+		filePath: uri.fsPath,
+		line: enclosing.symbol.selectionRange.start.line,
+		type: symbolKindToNodeType(enclosing.symbol.kind),
+		declaration: { ...enclosing, uri }
+	};
+}
@@ -0,0 +1,34 @@
+import { classifyFile } from './classification';
+
+// ─── Export Usage ────────────────────────────────────────────
+
+/** `unused`: no other file references the export; `testOnly`: only test files do */
+export type ExportUsage = 'unused' | 'testOnly';
+
+export interface UsageSummary {
+	usage: ExportUsage;
+	/** References inside the declaring file, which keep the code alive but not the `export` */
+	localReferences: number;
+	/** Test files referencing the export, sorted */
+	testFiles: string[];
+}
+
+/**
+ * Sorts an export by who references it, given the file of every reference other than the
+ * declaration itself. Undefined when production code in another file uses it.
+ */
+export function classifyExportUsage(declaringFile: string, referenceFiles: readonly string[]): UsageSummary | undefined {
+	const external = referenceFiles.filter(file => file !== declaringFile);
+	const localReferences = referenceFiles.length - external.length;
+	if (external.length === 0) {
+		return { usage: 'unused', localReferences, testFiles: [] };
+	}
+	if (external.every(isTestFile)) {
+		return { usage: 'testOnly', localReferences, testFiles: [...new Set(external)].sort() };
+	}
+	return undefined;
+}
+
+export function isTestFile(filePath: string): boolean {
+	return classifyFile(filePath.split(/[\\/]/).pop() || '') === 'test';
+}
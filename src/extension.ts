@@ -1,43 +1,95 @@
 import * as vscode from 'vscode';
-
-// ─── Data Types ──────────────────────────────────────────────
-
-interface DependencyNode {
-	id: string;
-	name: string;
-	fileName: string;
-	uri: string;
-	line: number;
-	type: 'symbol' | 'function' | 'class' | 'variable' | 'test' | 'component' | 'import' | 'type';
-	references: number;
-	isRoot: boolean;
-}
-
-interface DependencyLink {
-	source: string;
-	target: string;
-	type: 'defines' | 'uses' | 'tests' | 'imports';
-}
-
-interface ImpactAnalysis {
-	symbol: string;
-	sourceFile: string;
-	affectedFiles: number;
-	totalReferences: number;
-	nodes: DependencyNode[];
-	links: DependencyLink[];
-}
+import * as crypto from 'crypto';
+import { CallDirection, ImpactAnalysis } from './types';
+import { buildImpactAnalysis, getMaxDepth } from './impactAnalysis';
+import { buildCallHierarchyAnalysis } from './callHierarchy';
+import { analyzeChangedSymbols, findChangedSymbols, getActiveRepository, getGitApi, pickDiffBase } from './gitChanges';
+import { ImpactedTestsProvider, runAffectedTests } from './impactedTests';
+import { ImpactedLocationsProvider } from './impactedLocations';
+import { ImpactCodeLensProvider } from './impactCodeLens';
+import { DependencyIndex, SOURCE_GLOB, findReferences } from './dependencyIndex';
+import { buildModuleGraph, collectModules } from './moduleGraph';
+import { markCycles, publishCycleDiagnostics } from './cycles';
+import { assessRisk } from './riskAnalysis';
+import { TextExportFormat, exportAnalysis } from './analysisExport';
+import { ArchitectureGuard } from './architectureGuard';
+import { RULES_FILE } from './architectureRules';
+import { AnalysisHistory, HistoryEntry, formatHistoryTime } from './analysisHistory';
+import { compareAnalyses } from './analysisDiff';
+import { LockedSymbol, getFollowCursorSettings, isOnSymbol, locateLockedSymbol, lockSymbol } from './followCursor';
+import { PackageScope, assignPackages } from './packageGraph';
+import { analyzeFileExports, findExportedSymbols } from './fileExports';
+import { UnusedExportsProvider, findUnusedExports, publishUnusedExportDiagnostics } from './unusedExports';
+import { RESOLVER_CONFIG_GLOB, loadPackageScopes } from './resolverConfig';
+import { compareSignatures, formatSignature, isSignatureChanged, parseSignature } from './signatureChange';
+import { computeRenameEdit, findDeclaration, previewRefactor, toConfirmedEdit } from './refactorPreview';
+import { PossibleReference, addPossibleReferences, findPossibleReferences, getTextSearchSettings } from './possibleReferences';
 
 // ─── State ───────────────────────────────────────────────────
 
 let impactPanel: vscode.WebviewPanel | undefined;
+/** D3 as shipped in `dist`, addressed for the panel's webview */
+let d3ScriptUri: vscode.Uri | undefined;
 let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+/** The real-time update in flight; cancelled when a newer update or analysis replaces it */
+let realTimeUpdate: vscode.CancellationTokenSource | undefined;
+/** What the panel currently shows, so toggles and real-time updates know how to rebuild it */
+type PanelSource =
+	| { kind: 'references'; uri?: vscode.Uri; position?: vscode.Position }
+	| { kind: 'callHierarchy'; uri: vscode.Uri; position: vscode.Position; direction: CallDirection }
+	| { kind: 'changes' }
+	/** Combined impact of every export of a file */
+	| { kind: 'exports' }
+	| { kind: 'modules' }
+	/** A planned rename or signature change, with the edit the rename provider would make */
+	| { kind: 'refactor'; edit: vscode.WorkspaceEdit; label: string }
+	/** An earlier analysis or a comparison from the history, shown as it was */
+	| { kind: 'history' };
+
+let panelSource: PanelSource = { kind: 'references' };
+/** Set while the panel is locked: real-time updates re-analyze this symbol instead of the one at the cursor */
+let lockedSymbol: LockedSymbol | undefined;
+let followStatusItem: vscode.StatusBarItem | undefined;
+/** The analysis the panel shows, for exporting */
+let currentAnalysis: ImpactAnalysis | undefined;
+/** Webview snapshot requests awaiting their SVG or base64 PNG reply, by request id */
+const snapshotRequests = new Map<number, (data: string | undefined) => void>();
+let nextSnapshotId = 0;
+const impactedTestsProvider = new ImpactedTestsProvider();
+let impactedLocationsProvider: ImpactedLocationsProvider | undefined;
+let dependencyIndex: DependencyIndex | undefined;
+let architectureGuard: ArchitectureGuard | undefined;
+let analysisHistory: AnalysisHistory | undefined;
+/** Packages of a monorepo, loaded on the first analysis and again after their manifests change */
+let packageScopes: Promise<PackageScope[]> | undefined;
+const cycleDiagnostics = vscode.languages.createDiagnosticCollection('dependencyImpactVisualizer.cycles');
+const unusedExportsProvider = new UnusedExportsProvider();
+const unusedExportDiagnostics = vscode.languages.createDiagnosticCollection('dependencyImpactVisualizer.unusedExports');
 
 // ─── Activation ──────────────────────────────────────────────
 
 export function activate(context: vscode.ExtensionContext) {
 	console.log('Dependency Impact Visualizer is now active!');
 
+	analysisHistory = new AnalysisHistory(context.workspaceState);
+	const locationsProvider = new ImpactedLocationsProvider(context.workspaceState);
+	impactedLocationsProvider = locationsProvider;
+
+	let indexBuilt: Promise<void> = Promise.resolve();
+	if (vscode.workspace.getConfiguration('dependencyImpactVisualizer').get<boolean>('index.enabled', true)) {
+		dependencyIndex = new DependencyIndex(context.storageUri);
+		context.subscriptions.push(dependencyIndex);
+		indexBuilt = dependencyIndex.initialize().catch(err => console.error('Dependency index failed to build', err));
+	}
+
+	// The first architecture check reads every module, so let it reuse the finished index
+	const guard = new ArchitectureGuard(dependencyIndex);
+	architectureGuard = guard;
+	context.subscriptions.push(guard);
+	indexBuilt
+		.then(() => guard.initialize())
+		.catch(err => console.error('Architecture rules could not be checked', err));
+
 	const showImpactCmd = vscode.commands.registerCommand(
 		'dependency-impact-visualizer.showImpact',
 		() => showImpactPanel(context)
@@ -45,7 +97,12 @@ export function activate(context: vscode.ExtensionContext) {
 
 	const analyzeSymbolCmd = vscode.commands.registerCommand(
 		'dependency-impact-visualizer.analyzeSymbol',
-		async () => {
+		async (uri?: unknown, position?: unknown) => {
+			// CodeLenses pass the symbol's location; menus and the palette use the cursor
+			if (uri instanceof vscode.Uri && position instanceof vscode.Position) {
+				await analyzeSymbolAtPosition(await vscode.workspace.openTextDocument(uri), position, context);
+				return;
+			}
 			const editor = vscode.window.activeTextEditor;
 			if (!editor) {
 				vscode.window.showErrorMessage('No active editor');
@@ -55,20 +112,186 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	);
 
-	// Debounced real-time updates while typing
-	const fileWatcher = vscode.workspace.onDidChangeTextDocument(event => {
-		if (impactPanel?.visible) {
+	const analyzeCallHierarchyCmd = vscode.commands.registerCommand(
+		'dependency-impact-visualizer.analyzeCallHierarchy',
+		async () => {
 			const editor = vscode.window.activeTextEditor;
-			if (editor && editor.document === event.document) {
-				if (debounceTimer) { clearTimeout(debounceTimer); }
-				debounceTimer = setTimeout(async () => {
-					await updateImpactInRealTime(editor.document, editor.selection.active);
-				}, 500);
+			if (!editor) {
+				vscode.window.showErrorMessage('No active editor');
+				return;
 			}
+			await analyzeCallHierarchyAtPosition(
+				editor.document.uri,
+				editor.selection.active,
+				panelSource.kind === 'callHierarchy' ? panelSource.direction : 'both',
+				context
+			);
 		}
+	);
+
+	const analyzeFileExportsCmd = vscode.commands.registerCommand(
+		'dependency-impact-visualizer.analyzeFileExports',
+		async (uri?: unknown) => {
+			// The explorer passes the file; the editor menu and the palette use the active editor
+			const target = uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri;
+			if (!target) {
+				vscode.window.showErrorMessage('No active editor');
+				return;
+			}
+			await analyzeExportsOfFile(target, context);
+		}
+	);
+
+	const previewSignatureChangeCmd = vscode.commands.registerCommand(
+		'dependency-impact-visualizer.previewSignatureChange',
+		async () => {
+			const editor = vscode.window.activeTextEditor;
+			if (!editor) {
+				vscode.window.showErrorMessage('No active editor');
+				return;
+			}
+			await previewSignatureChange(editor.document, editor.selection.active, context);
+		}
+	);
+
+	const analyzeChangesCmd = vscode.commands.registerCommand(
+		'dependency-impact-visualizer.analyzeChanges',
+		() => analyzeWorkingChanges(context)
+	);
+
+	const showModuleGraphCmd = vscode.commands.registerCommand(
+		'dependency-impact-visualizer.showModuleGraph',
+		(folder?: vscode.Uri) => showModuleGraph(context, folder)
+	);
+
+	const checkArchitectureCmd = vscode.commands.registerCommand(
+		'dependency-impact-visualizer.checkArchitecture',
+		() => checkArchitecture()
+	);
+
+	const findUnusedExportsCmd = vscode.commands.registerCommand(
+		'dependency-impact-visualizer.findUnusedExports',
+		() => findUnusedExportsInWorkspace()
+	);
+
+	const exportAnalysisCmd = vscode.commands.registerCommand(
+		'dependency-impact-visualizer.exportAnalysis',
+		() => exportCurrentAnalysis()
+	);
+
+	const showHistoryCmd = vscode.commands.registerCommand(
+		'dependency-impact-visualizer.showHistory',
+		() => pickFromHistory(context)
+	);
+
+	const compareAnalysesCmd = vscode.commands.registerCommand(
+		'dependency-impact-visualizer.compareAnalyses',
+		() => compareFromHistory(context)
+	);
+
+	const impactedTestsView = vscode.window.createTreeView('dependencyImpactVisualizer.impactedTests', {
+		treeDataProvider: impactedTestsProvider
+	});
+
+	const impactedLocationsView = vscode.window.createTreeView('dependencyImpactVisualizer.impactedLocations', {
+		treeDataProvider: locationsProvider,
+		manageCheckboxStateManually: true
+	});
+	impactedLocationsView.onDidChangeCheckboxState(event => locationsProvider.setReviewed(event.items));
+	locationsProvider.onDidChangeTreeData(() => { impactedLocationsView.description = locationsProvider.progress; });
+
+	const unusedExportsView = vscode.window.createTreeView('dependencyImpactVisualizer.unusedExports', {
+		treeDataProvider: unusedExportsProvider
+	});
+	unusedExportsProvider.onDidChangeTreeData(() => { unusedExportsView.description = unusedExportsProvider.summary; });
+
+	const codeLensProvider = new ImpactCodeLensProvider(dependencyIndex);
+	const codeLensRegistration = vscode.languages.registerCodeLensProvider({ scheme: 'file' }, codeLensProvider);
+	const configWatcher = vscode.workspace.onDidChangeConfiguration(event => {
+		if (event.affectsConfiguration('dependencyImpactVisualizer.codeLens')) { codeLensProvider.refresh(); }
+		if (event.affectsConfiguration('dependencyImpactVisualizer.followCursor')) { updateFollowStatus(); }
+		if (event.affectsConfiguration('dependencyImpactVisualizer.unusedExports')) { showUnusedExportDiagnostics(); }
+	});
+
+	const runAffectedTestsCmd = vscode.commands.registerCommand(
+		'dependency-impact-visualizer.runAffectedTests',
+		() => runAffectedTests(impactedTestsProvider.impactedFiles)
+	);
+
+	const toggleFollowCursorCmd = vscode.commands.registerCommand(
+		'dependency-impact-visualizer.toggleFollowCursor',
+		() => vscode.workspace.getConfiguration('dependencyImpactVisualizer.followCursor')
+			.update('enabled', !getFollowCursorSettings().enabled, vscode.ConfigurationTarget.Global)
+	);
+
+	const toggleLockAnalysisCmd = vscode.commands.registerCommand(
+		'dependency-impact-visualizer.toggleLockAnalysis',
+		() => toggleLockAnalysis()
+	);
+
+	// Package manifests, tsconfig project references and workspace folders decide the package of each file
+	const packageWatcher = vscode.workspace.createFileSystemWatcher(RESOLVER_CONFIG_GLOB);
+	const resetPackages = () => { packageScopes = undefined; };
+	packageWatcher.onDidCreate(resetPackages);
+	packageWatcher.onDidChange(resetPackages);
+	packageWatcher.onDidDelete(resetPackages);
+	const workspaceFoldersWatcher = vscode.workspace.onDidChangeWorkspaceFolders(resetPackages);
+
+	followStatusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+
+	// Debounced real-time updates while typing
+	const fileWatcher = vscode.workspace.onDidChangeTextDocument(event => {
+		if (!impactPanel?.visible || event.contentChanges.length === 0) { return; }
+		// Edits anywhere can add or remove references to a locked symbol
+		if (lockedSymbol) {
+			if (event.document.uri.scheme === 'file') { scheduleRealTimeUpdate(updateLockedAnalysis); }
+			return;
+		}
+		const editor = vscode.window.activeTextEditor;
+		if (editor && editor.document === event.document) {
+			scheduleRealTimeUpdate(() => updateImpactInRealTime(editor.document, editor.selection.active));
+		}
+	});
+
+	// Follow-cursor mode re-analyzes whenever the caret settles on another symbol
+	const selectionWatcher = vscode.window.onDidChangeTextEditorSelection(event => {
+		if (!impactPanel?.visible || lockedSymbol || !getFollowCursorSettings().enabled) { return; }
+		// Opening a location from the graph moves the caret too; that must not re-root the graph
+		if (event.kind === vscode.TextEditorSelectionChangeKind.Command) { return; }
+		const { document, selection } = event.textEditor;
+		if (document.uri.scheme !== 'file' || isAnalyzedPosition(document, selection.active)) { return; }
+		scheduleRealTimeUpdate(() => updateImpactInRealTime(document, selection.active));
 	});
 
-	context.subscriptions.push(showImpactCmd, analyzeSymbolCmd, fileWatcher);
+	context.subscriptions.push(
+		showImpactCmd,
+		analyzeSymbolCmd,
+		analyzeCallHierarchyCmd,
+		analyzeFileExportsCmd,
+		previewSignatureChangeCmd,
+		analyzeChangesCmd,
+		showModuleGraphCmd,
+		cycleDiagnostics,
+		checkArchitectureCmd,
+		findUnusedExportsCmd,
+		unusedExportDiagnostics,
+		exportAnalysisCmd,
+		showHistoryCmd,
+		compareAnalysesCmd,
+		impactedTestsView,
+		impactedLocationsView,
+		unusedExportsView,
+		codeLensRegistration,
+		configWatcher,
+		runAffectedTestsCmd,
+		toggleFollowCursorCmd,
+		toggleLockAnalysisCmd,
+		followStatusItem,
+		packageWatcher,
+		workspaceFoldersWatcher,
+		fileWatcher,
+		selectionWatcher
+	);
 }
 
 // ─── Analysis Logic ──────────────────────────────────────────
@@ -89,132 +312,272 @@ async function analyzeSymbolAtPosition(
 	await vscode.window.withProgress(
 		{ location: vscode.ProgressLocation.Notification, title: `Analyzing impact of "${symbol}"...` },
 		async () => {
-			const locations = await vscode.commands.executeCommand<vscode.Location[]>(
-				'vscode.executeReferenceProvider',
-				document.uri,
-				position
-			);
-			if (locations && locations.length > 0) {
-				const analysis = await buildImpactAnalysis(symbol, document.uri, locations);
-				showImpactPanel(context, analysis);
+			const locations = await findReferences(document.uri, position, symbol, dependencyIndex);
+			const possible = await searchPossibleReferences(symbol, locations);
+			if (locations.length > 0 || possible.length > 0) {
+				const analysis = await buildImpactAnalysis(symbol, document.uri, locations, { position, index: dependencyIndex });
+				addPossibleReferences(analysis, possible);
+				panelSource = { kind: 'references', uri: document.uri, position };
+				await showImpactPanel(context, analysis);
 			} else {
-				vscode.window.showInformationMessage(`No references found for "${symbol}"`);
+				showNoReferencesFound(symbol);
 			}
 		}
 	);
 }
 
-async function buildImpactAnalysis(
+/** With text search turned on: mentions of the symbol in config files, templates and strings */
+async function searchPossibleReferences(
 	symbol: string,
-	sourceUri: vscode.Uri,
-	locations: vscode.Location[]
-): Promise<ImpactAnalysis> {
-	const nodes: DependencyNode[] = [];
-	const links: DependencyLink[] = [];
-	const fileGroups = new Map<string, vscode.Location[]>();
-
-	// Group locations by file
-	for (const loc of locations) {
-		const key = loc.uri.fsPath;
-		if (!fileGroups.has(key)) { fileGroups.set(key, []); }
-		fileGroups.get(key)!.push(loc);
-	}
-
-	const sourceFileName = sourceUri.fsPath.split(/[\\/]/).pop() || 'unknown';
-
-	// Root node = the analyzed symbol
-	const rootId = 'root';
-	nodes.push({
-		id: rootId,
-		name: symbol,
-		fileName: sourceFileName,
-		uri: sourceUri.fsPath,
-		line: 0,
-		type: 'symbol',
-		references: locations.length,
-		isRoot: true
-	});
-
-	// Create a file-level node for each affected file, then individual reference nodes
-	let nodeIdx = 0;
-	for (const [filePath, locs] of fileGroups) {
-		const fileName = filePath.split(/[\\/]/).pop() || 'unknown';
-		const fileType = classifyFile(fileName);
-		const fileNodeId = `file-${nodeIdx}`;
-
-		nodes.push({
-			id: fileNodeId,
-			name: fileName,
-			fileName,
-			uri: filePath,
-			line: locs[0].range.start.line + 1,
-			type: fileType,
-			references: locs.length,
-			isRoot: false
-		});
+	locations: vscode.Location[],
+	token?: vscode.CancellationToken
+): Promise<PossibleReference[]> {
+	const settings = getTextSearchSettings();
+	return settings.enabled ? findPossibleReferences(symbol, locations, settings, token) : [];
+}
+
+/** Nothing depends on the symbol; a workspace scan finds every other export in that state */
+async function showNoReferencesFound(symbol: string) {
+	const choice = await vscode.window.showInformationMessage(
+		`No references found for "${symbol}". It may be unused.`,
+		'Find Unused Exports'
+	);
+	if (choice) {
+		await findUnusedExportsInWorkspace();
+	}
+}
 
-		// Link from root → file
-		const linkType = fileType === 'test' ? 'tests'
-			: filePath === sourceUri.fsPath ? 'defines'
-			: 'uses';
-		links.push({ source: rootId, target: fileNodeId, type: linkType });
-
-		// Individual reference nodes within each file (if more than 1 ref in file)
-		if (locs.length > 1) {
-			for (let i = 0; i < locs.length; i++) {
-				const loc = locs[i];
-				const refNodeId = `ref-${nodeIdx}-${i}`;
-				const lineNum = loc.range.start.line + 1;
-
-				let refType: DependencyNode['type'] = 'function';
-				try {
-					const doc = await vscode.workspace.openTextDocument(loc.uri);
-					const lineText = doc.lineAt(loc.range.start.line).text.trim();
-					refType = classifyLineContext(lineText, fileName);
-				} catch { /* fallback */ }
-
-				nodes.push({
-					id: refNodeId,
-					name: `L${lineNum}`,
-					fileName,
-					uri: filePath,
-					line: lineNum,
-					type: refType,
-					references: 1,
-					isRoot: false
-				});
-				links.push({ source: fileNodeId, target: refNodeId, type: 'uses' });
+async function analyzeCallHierarchyAtPosition(
+	uri: vscode.Uri,
+	position: vscode.Position,
+	direction: CallDirection,
+	context: vscode.ExtensionContext
+) {
+	await vscode.window.withProgress(
+		{ location: vscode.ProgressLocation.Notification, title: 'Building call hierarchy...' },
+		async () => {
+			const analysis = await buildCallHierarchyAnalysis(uri, position, direction, getMaxDepth());
+			if (analysis) {
+				panelSource = { kind: 'callHierarchy', uri, position, direction };
+				await showImpactPanel(context, analysis);
+			} else {
+				vscode.window.showInformationMessage('No call hierarchy available at cursor position');
 			}
 		}
+	);
+}
 
-		nodeIdx++;
+async function analyzeExportsOfFile(uri: vscode.Uri, context: vscode.ExtensionContext) {
+	const document = await vscode.workspace.openTextDocument(uri);
+	const fileLabel = vscode.workspace.asRelativePath(uri);
+	const exports = await findExportedSymbols(document);
+	if (exports.length === 0) {
+		vscode.window.showInformationMessage(`No exported symbols found in ${fileLabel}`);
+		return;
 	}
 
-	return {
-		symbol,
-		sourceFile: sourceFileName,
-		affectedFiles: fileGroups.size,
-		totalReferences: locations.length,
-		nodes,
-		links
-	};
+	await vscode.window.withProgress(
+		{ location: vscode.ProgressLocation.Notification, title: `Analyzing impact of the exports of ${fileLabel}...` },
+		async progress => {
+			const analysis = await analyzeFileExports(document, exports, dependencyIndex, progress);
+			if (analysis) {
+				panelSource = { kind: 'exports' };
+				await showImpactPanel(context, analysis);
+			} else {
+				vscode.window.showInformationMessage(`None of the exports of ${fileLabel} have references to analyze`);
+			}
+		}
+	);
+}
+
+/**
+ * Asks for the new signature, prefilled with the current one, and shows the symbol's impact with
+ * every dependent marked as taken care of by the rename or in need of manual attention.
+ */
+async function previewSignatureChange(
+	document: vscode.TextDocument,
+	position: vscode.Position,
+	context: vscode.ExtensionContext
+) {
+	const wordRange = document.getWordRangeAtPosition(position);
+	if (!wordRange) {
+		vscode.window.showInformationMessage('No symbol found at cursor position');
+		return;
+	}
+
+	const symbol = document.getText(wordRange);
+	const declaration = await findDeclaration(document, position, symbol);
+	const typed = await vscode.window.showInputBox({
+		title: `Preview Impact of Signature Change: ${symbol}`,
+		prompt: 'Rename the symbol, or add, remove or reorder its parameters',
+		value: formatSignature(declaration.signature),
+		valueSelection: [0, declaration.signature.name.length],
+		validateInput: value => parseSignature(value) ? undefined : 'Enter a name, optionally followed by a parameter list'
+	});
+	const after = typed !== undefined ? parseSignature(typed) : undefined;
+	if (!after) { return; }
+
+	const change = compareSignatures(declaration.signature, after);
+	if (!isSignatureChanged(change)) {
+		vscode.window.showInformationMessage('The signature is unchanged');
+		return;
+	}
+
+	const signature = formatSignature(after);
+	await vscode.window.withProgress(
+		{ location: vscode.ProgressLocation.Notification, title: `Previewing impact of ${signature}...`, cancellable: true },
+		async (_progress, token) => {
+			let edit: vscode.WorkspaceEdit;
+			try {
+				edit = await computeRenameEdit(document.uri, position, change);
+			} catch (err) {
+				vscode.window.showErrorMessage(`"${symbol}" cannot be renamed: ${err instanceof Error ? err.message : String(err)}`);
+				return;
+			}
+
+			const locations = await findReferences(document.uri, position, symbol, dependencyIndex);
+			const analysis = await buildImpactAnalysis(symbol, document.uri, locations, { position, index: dependencyIndex, token });
+			// Names in strings are what renames miss most, so source files are searched even with text search off
+			const settings = getTextSearchSettings();
+			addPossibleReferences(analysis, await findPossibleReferences(
+				symbol,
+				locations,
+				settings.enabled ? settings : { include: [SOURCE_GLOB], exclude: [] },
+				token
+			));
+			await previewRefactor(analysis, locations, declaration, change, edit);
+			if (token.isCancellationRequested) { return; }
+
+			panelSource = { kind: 'refactor', edit, label: `${symbol} → ${signature}` };
+			await showImpactPanel(context, analysis);
+		}
+	);
+}
+
+async function analyzeWorkingChanges(context: vscode.ExtensionContext) {
+	const git = await getGitApi();
+	if (!git) {
+		vscode.window.showErrorMessage('The built-in Git extension is not available');
+		return;
+	}
+
+	const repo = getActiveRepository(git);
+	if (!repo) {
+		vscode.window.showErrorMessage('No Git repository found in the workspace');
+		return;
+	}
+
+	const base = await pickDiffBase(repo);
+	if (!base) { return; }
+
+	await vscode.window.withProgress(
+		{ location: vscode.ProgressLocation.Notification, title: `Analyzing impact of ${base.label.toLowerCase()}...` },
+		async progress => {
+			const changed = await findChangedSymbols(repo, base);
+			if (changed.length === 0) {
+				vscode.window.showInformationMessage(`No changed symbols found (${base.label.toLowerCase()})`);
+				return;
+			}
+
+			const analysis = await analyzeChangedSymbols(changed, base, repo, progress);
+			if (analysis) {
+				panelSource = { kind: 'changes' };
+				await showImpactPanel(context, analysis);
+			} else {
+				vscode.window.showInformationMessage('None of the changed symbols have references to analyze');
+			}
+		}
+	);
+}
+
+async function showModuleGraph(context: vscode.ExtensionContext, folder?: vscode.Uri) {
+	const scope = folder ? { uri: folder } : await pickModuleGraphScope();
+	if (!scope) { return; }
+
+	await vscode.window.withProgress(
+		{ location: vscode.ProgressLocation.Notification, title: 'Building module dependency graph...' },
+		async () => {
+			const analysis = buildModuleGraph(await collectModules(dependencyIndex), scope.uri);
+			architectureGuard?.markViolations(analysis);
+			if (analysis.nodes.length > 0) {
+				panelSource = { kind: 'modules' };
+				await showImpactPanel(context, analysis);
+			} else {
+				vscode.window.showInformationMessage('No source files found to graph');
+			}
+		}
+	);
 }
 
-function classifyFile(fileName: string): DependencyNode['type'] {
-	if (/\.(test|spec)\./i.test(fileName)) { return 'test'; }
-	if (/component/i.test(fileName) || /\.(vue|svelte|jsx|tsx)$/.test(fileName)) { return 'component'; }
-	if (/\.(d\.ts|types?\.)/.test(fileName)) { return 'type'; }
-	return 'function';
+async function checkArchitecture() {
+	if (!architectureGuard?.hasRules) {
+		vscode.window.showInformationMessage(`No architecture rules found. Add a ${RULES_FILE} file to the workspace folder to declare them.`);
+		return;
+	}
+
+	const guard = architectureGuard;
+	const violations = await vscode.window.withProgress(
+		{ location: vscode.ProgressLocation.Notification, title: 'Checking architecture rules...' },
+		() => guard.checkWorkspace()
+	);
+
+	if (violations === 0) {
+		vscode.window.showInformationMessage('No architecture rule violations found');
+		return;
+	}
+	const choice = await vscode.window.showWarningMessage(
+		`${violations} import${violations !== 1 ? 's' : ''} violate${violations === 1 ? 's' : ''} architecture rules`,
+		'Show Problems'
+	);
+	if (choice) {
+		await vscode.commands.executeCommand('workbench.actions.view.problems');
+	}
+}
+
+async function findUnusedExportsInWorkspace() {
+	const unused = await vscode.window.withProgress(
+		{ location: vscode.ProgressLocation.Notification, title: 'Finding unused exports...', cancellable: true },
+		(progress, token) => findUnusedExports(dependencyIndex, progress, token)
+	);
+	unusedExportsProvider.update(unused);
+	showUnusedExportDiagnostics();
+	await vscode.commands.executeCommand('dependencyImpactVisualizer.unusedExports.focus');
+
+	const testOnly = unused.filter(item => item.usage === 'testOnly').length;
+	vscode.window.showInformationMessage(unused.length === 0
+		? 'No unused exports found'
+		: `Found ${unused.length - testOnly} unused export${unused.length - testOnly !== 1 ? 's' : ''} and ${testOnly} only used by tests`);
+}
+
+/** Hints for the last scan's findings, unless turned off */
+function showUnusedExportDiagnostics() {
+	if (vscode.workspace.getConfiguration('dependencyImpactVisualizer').get<boolean>('unusedExports.diagnostics', true)) {
+		publishUnusedExportDiagnostics(unusedExportDiagnostics, unusedExportsProvider.unusedExports);
+	} else {
+		unusedExportDiagnostics.clear();
+	}
 }
 
-function classifyLineContext(lineText: string, fileName: string): DependencyNode['type'] {
-	if (/\b(import|require|from)\b/.test(lineText)) { return 'import'; }
-	if (/\bclass\b/.test(lineText)) { return 'class'; }
-	if (/\b(interface|type)\b/.test(lineText)) { return 'type'; }
-	if (/\b(const|let|var)\b/.test(lineText)) { return 'variable'; }
-	if (/\b(function|=>)\b/.test(lineText)) { return 'function'; }
-	if (/\b(it|describe|test|expect)\b/.test(lineText)) { return 'test'; }
-	return classifyFile(fileName);
+/** Resolves to `{ uri: undefined }` for the whole workspace, or undefined when cancelled */
+async function pickModuleGraphScope(): Promise<{ uri: vscode.Uri | undefined } | undefined> {
+	const folders = vscode.workspace.workspaceFolders ?? [];
+	const items: (vscode.QuickPickItem & { uri?: vscode.Uri; browse?: boolean })[] = [
+		{ label: '$(root-folder) Entire workspace' },
+		...(folders.length > 1 ? folders.map(f => ({ label: `$(folder) ${f.name}`, uri: f.uri })) : []),
+		{ label: '$(folder-opened) Choose folder...', browse: true }
+	];
+
+	const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Graph module dependencies of' });
+	if (!picked) { return undefined; }
+	if (!picked.browse) { return { uri: picked.uri }; }
+
+	const chosen = await vscode.window.showOpenDialog({
+		canSelectFiles: false,
+		canSelectFolders: true,
+		defaultUri: folders[0]?.uri,
+		openLabel: 'Show Module Graph'
+	});
+	return chosen?.[0] ? { uri: chosen[0] } : undefined;
 }
 
 // ─── Real-Time Updates ───────────────────────────────────────
@@ -223,34 +586,184 @@ async function updateImpactInRealTime(document: vscode.TextDocument, position: v
 	const wordRange = document.getWordRangeAtPosition(position);
 	if (!wordRange || !impactPanel) { return; }
 
-	const symbol = document.getText(wordRange);
-	const locations = await vscode.commands.executeCommand<vscode.Location[]>(
-		'vscode.executeReferenceProvider',
-		document.uri,
-		position
-	);
+	// Change sets, file exports, module graphs, refactor previews and history entries are snapshots;
+	// re-run the command to refresh them
+	if (panelSource.kind === 'changes' || panelSource.kind === 'exports' || panelSource.kind === 'modules'
+		|| panelSource.kind === 'refactor' || panelSource.kind === 'history') { return; }
+
+	// An analysis still running for older text must not overwrite this one when it finishes
+	cancelRealTimeUpdate();
+	const update = new vscode.CancellationTokenSource();
+	realTimeUpdate = update;
+	const { token } = update;
+
+	try {
+		// Keywords, literals and comments keep the current graph rather than emptying it
+		if (!await isOnSymbol(document, position) || token.isCancellationRequested) { return; }
+
+		let analysis: ImpactAnalysis | undefined;
+		if (panelSource.kind === 'callHierarchy') {
+			analysis = await buildCallHierarchyAnalysis(document.uri, position, panelSource.direction, getMaxDepth(), token);
+			if (!analysis || token.isCancellationRequested) { return; }
+			panelSource = { ...panelSource, uri: document.uri, position };
+			detectCycles(analysis);
+		} else {
+			const symbol = document.getText(wordRange);
+			const locations = await findReferences(document.uri, position, symbol, dependencyIndex);
+			if (token.isCancellationRequested) { return; }
+			const possible = await searchPossibleReferences(symbol, locations, token);
+			if ((locations.length === 0 && possible.length === 0) || token.isCancellationRequested) { return; }
+			analysis = await buildImpactAnalysis(symbol, document.uri, locations, { position, index: dependencyIndex, token });
+			addPossibleReferences(analysis, possible);
+			panelSource = { kind: 'references', uri: document.uri, position };
+		}
 
-	if (locations && locations.length > 0) {
-		const analysis = await buildImpactAnalysis(symbol, document.uri, locations);
-		// Send data update instead of replacing entire HTML (keeps D3 state)
-		impactPanel.webview.postMessage({ command: 'updateGraph', data: analysis });
+		await groupByPackage(analysis);
+		await assessRisk(analysis, dependencyIndex);
+		if (token.isCancellationRequested || !impactPanel) { return; }
+		currentAnalysis = analysis;
+		if (analysisHistory) {
+			// Following the cursor to another symbol is a new analysis; Pin and Compare act on the shown one
+			const shown = analysisHistory.current?.analysis;
+			const sameRoot = shown?.symbol === analysis.symbol
+				&& shown.nodes.find(n => n.isRoot)?.uri === analysis.nodes.find(n => n.isRoot)?.uri;
+			if (sameRoot) {
+				analysisHistory.refresh(analysis);
+			} else {
+				analysisHistory.record(analysis);
+			}
+		}
+		// The webview matches nodes by id, so it only animates what was added or removed
+		impactPanel.webview.postMessage({
+			command: 'updateGraph',
+			data: toGraphData(analysis),
+			header: headerHtml(analysis),
+			history: analysisHistory?.view ?? null
+		});
+		await updateSidebarViews(analysis);
+	} finally {
+		if (realTimeUpdate === update) { realTimeUpdate = undefined; }
+		update.dispose();
 	}
 }
 
+function cancelRealTimeUpdate() {
+	realTimeUpdate?.cancel();
+	realTimeUpdate = undefined;
+}
+
+function scheduleRealTimeUpdate(run: () => Promise<void>) {
+	if (debounceTimer) { clearTimeout(debounceTimer); }
+	debounceTimer = setTimeout(() => {
+		debounceTimer = undefined;
+		run().catch(err => console.error('Real-time update failed', err));
+	}, getFollowCursorSettings().debounce);
+}
+
+/** Whether the caret is still on the word the panel was built from */
+function isAnalyzedPosition(document: vscode.TextDocument, position: vscode.Position): boolean {
+	if (panelSource.kind !== 'references' && panelSource.kind !== 'callHierarchy') { return false; }
+	if (!panelSource.uri || !panelSource.position || panelSource.uri.toString() !== document.uri.toString()) { return false; }
+	const wordRange = document.getWordRangeAtPosition(panelSource.position);
+	return !!wordRange?.contains(position);
+}
+
+/** Re-runs the analysis of the locked symbol, wherever edits have moved its declaration */
+async function updateLockedAnalysis() {
+	const locked = lockedSymbol;
+	if (!locked) { return; }
+	const position = await locateLockedSymbol(locked);
+	if (!position || lockedSymbol !== locked) { return; }
+	locked.line = position.line;
+	await updateImpactInRealTime(await vscode.workspace.openTextDocument(locked.uri), position);
+}
+
+async function toggleLockAnalysis() {
+	if (lockedSymbol) {
+		setLockedSymbol(undefined);
+		return;
+	}
+	if (!impactPanel || (panelSource.kind !== 'references' && panelSource.kind !== 'callHierarchy')
+		|| !panelSource.uri || !panelSource.position) {
+		vscode.window.showInformationMessage('Analyze a symbol first to lock the panel onto it');
+		return;
+	}
+
+	const { uri, position } = panelSource;
+	const document = await vscode.workspace.openTextDocument(uri);
+	const wordRange = document.getWordRangeAtPosition(position);
+	if (!wordRange) { return; }
+	setLockedSymbol(await lockSymbol(uri, position, document.getText(wordRange)));
+}
+
+function setLockedSymbol(locked: LockedSymbol | undefined) {
+	lockedSymbol = locked;
+	updateFollowStatus();
+}
+
+/** Shows in the status bar which symbol the panel is locked on, or that it follows the cursor */
+function updateFollowStatus() {
+	if (!followStatusItem) { return; }
+	if (!impactPanel || (!lockedSymbol && !getFollowCursorSettings().enabled)) {
+		followStatusItem.hide();
+		return;
+	}
+	if (lockedSymbol) {
+		followStatusItem.text = `$(lock) ${lockedSymbol.name}`;
+		followStatusItem.tooltip = `Impact graph locked on ${lockedSymbol.name}. Click to unlock.`;
+		followStatusItem.command = 'dependency-impact-visualizer.toggleLockAnalysis';
+	} else {
+		followStatusItem.text = '$(eye) Follow Cursor';
+		followStatusItem.tooltip = 'Impact graph follows the symbol under the cursor. Click to stop following.';
+		followStatusItem.command = 'dependency-impact-visualizer.toggleFollowCursor';
+	}
+	followStatusItem.show();
+}
+
 // ─── Panel Management ────────────────────────────────────────
 
-function showImpactPanel(context: vscode.ExtensionContext, analysis?: ImpactAnalysis) {
+async function showImpactPanel(context: vscode.ExtensionContext, analysis?: ImpactAnalysis) {
+	if (analysis) {
+		detectCycles(analysis);
+		await groupByPackage(analysis);
+		// Import graphs have no analyzed symbol whose change could break anything
+		if (!analysis.moduleGraph) {
+			await assessRisk(analysis, dependencyIndex);
+		}
+		analysisHistory?.record(analysis);
+	} else if (!currentAnalysis && analysisHistory?.current) {
+		// Reopening the panel, e.g. after a reload, brings back the last analysis instead of an empty graph
+		analysis = analysisHistory.current.analysis;
+		panelSource = { kind: 'history' };
+	} else {
+		analysis = currentAnalysis;
+	}
+
+	revealPanel(context);
+	renderAnalysis(analysis);
+}
+
+function revealPanel(context: vscode.ExtensionContext) {
 	if (impactPanel) {
 		impactPanel.reveal(vscode.ViewColumn.Beside);
 	} else {
+		const assetsRoot = vscode.Uri.joinPath(context.extensionUri, 'dist');
 		impactPanel = vscode.window.createWebviewPanel(
 			'dependencyImpact',
 			'Dependency Impact Graph',
 			vscode.ViewColumn.Beside,
-			{ enableScripts: true, retainContextWhenHidden: true }
+			{ enableScripts: true, retainContextWhenHidden: true, localResourceRoots: [assetsRoot] }
 		);
-
-		impactPanel.onDidDispose(() => { impactPanel = undefined; });
+		d3ScriptUri = impactPanel.webview.asWebviewUri(vscode.Uri.joinPath(assetsRoot, 'd3.min.js'));
+
+		impactPanel.onDidDispose(() => {
+			impactPanel = undefined;
+			d3ScriptUri = undefined;
+			currentAnalysis = undefined;
+			setLockedSymbol(undefined);
+			snapshotRequests.forEach(resolve => resolve(undefined));
+			snapshotRequests.clear();
+		});
 
 		impactPanel.webview.onDidReceiveMessage(
 			async message => {
@@ -265,51 +778,380 @@ function showImpactPanel(context: vscode.ExtensionContext, analysis?: ImpactAnal
 					} catch (err) {
 						vscode.window.showErrorMessage(`Could not open file: ${message.uri}`);
 					}
+				} else if (message.command === 'setCallDirection' && panelSource.kind === 'callHierarchy') {
+					const { uri, position } = panelSource;
+					await analyzeCallHierarchyAtPosition(uri, position, message.direction, context);
+				} else if (message.command === 'applyRefactor' && panelSource.kind === 'refactor') {
+					// Every change needs confirmation, so VS Code shows them in its Refactor Preview first
+					await vscode.workspace.applyEdit(toConfirmedEdit(panelSource.edit, panelSource.label), { isRefactoring: true });
+				} else if (message.command === 'export') {
+					await exportCurrentAnalysis();
+				} else if (message.command === 'historyBack' || message.command === 'historyForward') {
+					const entry = analysisHistory?.go(message.command === 'historyBack' ? -1 : 1);
+					if (entry) { showHistoryEntry(context, entry); }
+				} else if (message.command === 'togglePin' && analysisHistory?.current) {
+					analysisHistory.togglePin(analysisHistory.current.id);
+					impactPanel?.webview.postMessage({ command: 'updateHistory', history: analysisHistory.view });
+				} else if (message.command === 'compare') {
+					await compareFromHistory(context, analysisHistory?.current);
+				} else if (message.command === 'snapshot') {
+					snapshotRequests.get(message.requestId)?.(message.data);
+					snapshotRequests.delete(message.requestId);
 				}
 			},
 			undefined,
 			context.subscriptions
 		);
 	}
+}
+
+function renderAnalysis(analysis: ImpactAnalysis | undefined) {
+	if (!impactPanel || !d3ScriptUri) { return; }
+	cancelRealTimeUpdate();
+	// Another analysis, or one from the history, replaces the locked symbol's
+	setLockedSymbol(undefined);
+	impactPanel.webview.html = getWebviewContent(impactPanel.webview, d3ScriptUri, analysis);
+	currentAnalysis = analysis;
+
+	if (analysis) {
+		updateSidebarViews(analysis);
+	}
+}
+
+/**
+ * Lists the analysis' locations and tests in the sidebar. Files in a module graph are merely in
+ * the folder, not impacted by anything; a comparison also holds locations no longer impacted.
+ */
+async function updateSidebarViews(analysis: ImpactAnalysis) {
+	if (analysis.moduleGraph || analysis.comparison) { return; }
+	impactedLocationsProvider?.update(analysis);
+	await impactedTestsProvider.update(analysis);
+}
+
+/** In a monorepo, tags nodes with their package and sums up the packages the analysis reaches */
+async function groupByPackage(analysis: ImpactAnalysis) {
+	packageScopes ??= loadPackageScopes();
+	try {
+		assignPackages(analysis, await packageScopes);
+	} catch (err) {
+		packageScopes = undefined;
+		console.error('Workspace packages could not be loaded', err);
+	}
+}
+
+/** Import and call graphs can loop back on themselves; reference graphs always point away from the root */
+function detectCycles(analysis: ImpactAnalysis) {
+	if (!analysis.moduleGraph && !analysis.callDirection) { return; }
+	publishCycleDiagnostics(cycleDiagnostics, analysis, markCycles(analysis));
+}
+
+// ─── History ─────────────────────────────────────────────────
+
+type HistoryItem = vscode.QuickPickItem & { entry: HistoryEntry };
+
+function showHistoryEntry(context: vscode.ExtensionContext, entry: HistoryEntry) {
+	panelSource = { kind: 'history' };
+	revealPanel(context);
+	renderAnalysis(entry.analysis);
+}
+
+function historyItem(entry: HistoryEntry): HistoryItem {
+	const { analysis } = entry;
+	const kind = analysis.moduleGraph ? 'Module graph' : analysis.callDirection ? 'Call hierarchy' : 'References';
+	return {
+		label: `${entry.pinned ? '$(pinned) ' : ''}${analysis.symbol}`,
+		description: `${kind} · ${formatHistoryTime(entry.savedAt)}`,
+		detail: `${analysis.affectedFiles} file${analysis.affectedFiles !== 1 ? 's' : ''} · ${analysis.nodes.length} nodes`
+			+ (analysis.risk ? ` · ${analysis.risk.rating} blast radius` : ''),
+		entry
+	};
+}
+
+/** Lists the history newest first; the item button pins or unpins an entry without closing the list */
+async function pickFromHistory(context: vscode.ExtensionContext) {
+	const history = analysisHistory;
+	if (!history || history.all.length === 0) {
+		vscode.window.showInformationMessage('No impact analyses in the history yet');
+		return;
+	}
+
+	const quickPick = vscode.window.createQuickPick<HistoryItem>();
+	const refresh = () => {
+		quickPick.items = [...history.all].reverse().map(entry => ({
+			...historyItem(entry),
+			buttons: [{ iconPath: new vscode.ThemeIcon(entry.pinned ? 'pinned' : 'pin'), tooltip: entry.pinned ? 'Unpin' : 'Pin' }]
+		}));
+	};
+	refresh();
+	quickPick.placeholder = 'Show an earlier impact analysis';
+
+	quickPick.onDidTriggerItemButton(({ item }) => {
+		history.togglePin(item.entry.id);
+		refresh();
+		impactPanel?.webview.postMessage({ command: 'updateHistory', history: history.view });
+	});
+	quickPick.onDidAccept(() => {
+		const picked = quickPick.selectedItems[0];
+		quickPick.hide();
+		if (picked && history.select(picked.entry.id)) {
+			showHistoryEntry(context, picked.entry);
+		}
+	});
+	quickPick.onDidHide(() => quickPick.dispose());
+	quickPick.show();
+}
+
+/**
+ * Shows the difference between two analyses of the same symbol, earlier one first. Without an
+ * entry to start from, both are picked from the history.
+ */
+async function compareFromHistory(context: vscode.ExtensionContext, shown?: HistoryEntry) {
+	const history = analysisHistory;
+	if (!history) { return; }
+
+	let first = shown;
+	if (!first) {
+		const candidates = [...history.all].reverse().filter(e => history.comparableWith(e).length > 0);
+		if (candidates.length === 0) {
+			vscode.window.showInformationMessage('Analyze the same symbol twice, e.g. before and after a refactor, to compare the results');
+			return;
+		}
+		first = (await vscode.window.showQuickPick(candidates.map(historyItem), { placeHolder: 'Compare the impact analysis of' }))?.entry;
+		if (!first) { return; }
+	}
+
+	const others = history.comparableWith(first);
+	if (others.length === 0) {
+		vscode.window.showInformationMessage(`No other analysis of "${first.analysis.symbol}" to compare with`);
+		return;
+	}
+	const second = (await vscode.window.showQuickPick(others.map(historyItem), {
+		placeHolder: `Compare ${first.analysis.symbol} (${formatHistoryTime(first.savedAt)}) with`
+	}))?.entry;
+	if (!second) { return; }
+
+	const [before, after] = first.savedAt <= second.savedAt ? [first, second] : [second, first];
+	const comparison = compareAnalyses(before.analysis, after.analysis, {
+		before: formatHistoryTime(before.savedAt),
+		after: formatHistoryTime(after.savedAt)
+	});
+
+	history.select(after.id);
+	panelSource = { kind: 'history' };
+	revealPanel(context);
+	renderAnalysis(comparison);
+}
+
+// ─── Export ──────────────────────────────────────────────────
+
+type ExportFormat = TextExportFormat | 'svg' | 'png';
+
+interface ExportOption extends vscode.QuickPickItem {
+	format: ExportFormat;
+	extension: string;
+	/** Copy to the clipboard instead of saving a file */
+	clipboard?: boolean;
+}
+
+const EXPORT_OPTIONS: ExportOption[] = [
+	{ label: 'Markdown', description: 'Copy a report for a pull request', format: 'markdown', extension: 'md', clipboard: true },
+	{ label: 'Mermaid', description: 'Copy a diagram for GitHub or GitLab', format: 'mermaid', extension: 'mmd', clipboard: true },
+	{ label: 'JSON', description: 'Raw nodes and links', format: 'json', extension: 'json' },
+	{ label: 'Markdown', description: 'Save the report', format: 'markdown', extension: 'md' },
+	{ label: 'Mermaid', description: 'Save the diagram', format: 'mermaid', extension: 'mmd' },
+	{ label: 'Graphviz DOT', description: 'Text graph for dot / Graphviz tools', format: 'dot', extension: 'dot' },
+	{ label: 'SVG', description: 'Snapshot of the graph as shown', format: 'svg', extension: 'svg' },
+	{ label: 'PNG', description: 'Snapshot of the graph as shown', format: 'png', extension: 'png' }
+];
+
+async function exportCurrentAnalysis() {
+	const analysis = currentAnalysis;
+	if (!analysis || !impactPanel) {
+		vscode.window.showErrorMessage('No impact analysis to export. Analyze a symbol first.');
+		return;
+	}
+
+	const option = await vscode.window.showQuickPick(EXPORT_OPTIONS, { placeHolder: 'Export the impact analysis as' });
+	if (!option) { return; }
+
+	let content: string | Uint8Array;
+	if (option.format === 'svg' || option.format === 'png') {
+		const snapshot = await requestSnapshot(option.format);
+		if (!snapshot) {
+			vscode.window.showErrorMessage('Could not capture the graph. Make sure the impact panel is open.');
+			return;
+		}
+		content = option.format === 'png' ? Buffer.from(snapshot, 'base64') : snapshot;
+	} else {
+		content = exportAnalysis(analysis, option.format, filePath => vscode.workspace.asRelativePath(filePath));
+	}
+
+	if (option.clipboard && typeof content === 'string') {
+		await vscode.env.clipboard.writeText(content);
+		vscode.window.showInformationMessage(`${option.label} copied to the clipboard`);
+		return;
+	}
+
+	const baseName = analysis.symbol.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'impact';
+	const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+	const target = await vscode.window.showSaveDialog({
+		defaultUri: folder && vscode.Uri.joinPath(folder, `${baseName}-impact.${option.extension}`),
+		filters: { [option.label]: [option.extension] }
+	});
+	if (!target) { return; }
+
+	await vscode.workspace.fs.writeFile(target, typeof content === 'string' ? new TextEncoder().encode(content) : content);
+	const choice = await vscode.window.showInformationMessage(`Exported to ${vscode.workspace.asRelativePath(target)}`, 'Open');
+	if (choice) {
+		await vscode.commands.executeCommand('vscode.open', target);
+	}
+}
 
-	impactPanel.webview.html = getWebviewContent(analysis);
+/** Asks the webview to serialize its current render; undefined if it does not answer */
+function requestSnapshot(format: 'svg' | 'png'): Promise<string | undefined> {
+	const panel = impactPanel;
+	if (!panel) { return Promise.resolve(undefined); }
+
+	const requestId = nextSnapshotId++;
+	return new Promise(resolve => {
+		snapshotRequests.set(requestId, resolve);
+		panel.webview.postMessage({ command: 'snapshot', requestId, format });
+		setTimeout(() => {
+			if (snapshotRequests.delete(requestId)) { resolve(undefined); }
+		}, 10000);
+	});
 }
 
 // ─── Webview HTML with D3.js ─────────────────────────────────
 
-function getWebviewContent(analysis?: ImpactAnalysis): string {
-	const graphData = analysis
-		? JSON.stringify({ nodes: analysis.nodes, links: analysis.links })
-			.replace(/\\/g, '\\\\')
-			.replace(/'/g, "\\'")
-		: 'null';
+/** Symbol and file names go into the HTML as text, e.g. `Map<K, V>` or `a&b.ts` */
+function escapeHtml(text: string): string {
+	const entities: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&#39;' };
+	return text.replace(/[&<>"']/g, c => entities[c]);
+}
 
-	const summaryHtml = analysis ? `
+/** What the webview renders; `symbol` tells whether a focus set on another symbol's graph still applies */
+function toGraphData(analysis: ImpactAnalysis) {
+	return {
+		symbol: analysis.symbol,
+		nodes: analysis.nodes,
+		links: analysis.links,
+		risk: analysis.risk,
+		comparison: analysis.comparison
+	};
+}
+
+/** Symbol, counts and legend above the graph; real-time updates send it along with the graph */
+function headerHtml(analysis: ImpactAnalysis): string {
+	const possibleReferences = analysis.nodes.filter(n => n.type === 'possible').length;
+
+	return `
 		<div class="header">
-			<h1><span class="symbol-badge">${analysis.symbol}</span></h1>
-			<p class="subtitle">defined in ${analysis.sourceFile}</p>
+			<div class="title-row">
+				<h1><span class="symbol-badge">${escapeHtml(analysis.symbol)}</span></h1>
+				<div class="history-nav" id="historyNav"></div>
+			</div>
+			<p class="subtitle">${analysis.refactor ? `preview of ${escapeHtml(analysis.refactor.signature)} · ` : ''}${analysis.comparison ? `changes since ${escapeHtml(analysis.comparison.before)} · ` : ''}${analysis.moduleGraph ? 'module dependency graph'
+				: `${analysis.callDirection ? 'call hierarchy · ' : ''}defined in ${escapeHtml(analysis.sourceFile)}`}</p>
+			${analysis.callDirection && panelSource.kind === 'callHierarchy' ? `
+			<div class="direction-toggle" id="directionToggle">
+				${(['incoming', 'outgoing', 'both'] as const).map(direction => `
+				<button class="${direction === analysis.callDirection ? 'active' : ''}" data-direction="${direction}">${
+					direction === 'incoming' ? 'Callers' : direction === 'outgoing' ? 'Callees' : 'Both'
+				}</button>`).join('')}
+			</div>
+			` : ''}
+			${analysis.refactor && analysis.refactor.edits > 0 && panelSource.kind === 'refactor' ? `
+			<div class="refactor-actions">
+				<button id="applyRefactor" title="Review the rename's edits and apply them">Apply in Refactor Preview&hellip;</button>
+			</div>
+			` : ''}
 			<div class="summary">
 				<div class="summary-item">
 					<span class="summary-value">${analysis.affectedFiles}</span>
 					<span class="summary-label">Files</span>
 				</div>
+				${analysis.packages ? `
+				<div class="summary-item" title="${escapeHtml(analysis.packages.map(p => p.name).join(', '))}">
+					<span class="summary-value">${analysis.packages.length}</span>
+					<span class="summary-label">Packages</span>
+				</div>
+				` : ''}
 				<div class="summary-item">
 					<span class="summary-value">${analysis.totalReferences}</span>
-					<span class="summary-label">References</span>
+					<span class="summary-label">${analysis.moduleGraph ? 'Imports' : analysis.callDirection ? 'Call Sites' : 'References'}</span>
 				</div>
 				<div class="summary-item">
 					<span class="summary-value">${analysis.nodes.length}</span>
 					<span class="summary-label">Nodes</span>
 				</div>
+				${possibleReferences > 0 ? `
+				<div class="summary-item" title="Mentions of the name found by text search, e.g. in config files and templates">
+					<span class="summary-value">${possibleReferences}</span>
+					<span class="summary-label">Possible</span>
+				</div>
+				` : ''}
+				${analysis.moduleGraph ? '' : `
+				<div class="summary-item">
+					<span class="summary-value">${analysis.maxDepth}</span>
+					<span class="summary-label">Hops</span>
+				</div>
+				`}
+				${analysis.comparison ? `
+				<div class="summary-item">
+					<span class="summary-value diff-added">+${analysis.comparison.added}</span>
+					<span class="summary-label">Added</span>
+				</div>
+				<div class="summary-item">
+					<span class="summary-value diff-removed">&minus;${analysis.comparison.removed}</span>
+					<span class="summary-label">Removed</span>
+				</div>
+				` : ''}
+				${analysis.refactor ? `
+				<div class="summary-item">
+					<span class="summary-value">${analysis.refactor.edits}</span>
+					<span class="summary-label">Edits in ${analysis.refactor.files} File${analysis.refactor.files !== 1 ? 's' : ''}</span>
+				</div>
+				<div class="summary-item">
+					<span class="summary-value refactor-automatic">${analysis.refactor.automatic}</span>
+					<span class="summary-label">Automatic</span>
+				</div>
+				<div class="summary-item">
+					<span class="summary-value refactor-manual">${analysis.refactor.manual}</span>
+					<span class="summary-label">Manual</span>
+				</div>
+				` : ''}
+				${analysis.risk ? `
+				<div class="summary-item">
+					<span class="summary-value" id="blastRadius"></span>
+					<span class="summary-label" id="blastRadiusScore">Blast Radius</span>
+				</div>
+				` : ''}
 			</div>
 			<div class="legend" id="legend"></div>
 		</div>
-	` : '';
+	`;
+}
+
+function getWebviewContent(webview: vscode.Webview, d3Uri: vscode.Uri, analysis?: ImpactAnalysis): string {
+	// Only scripts carrying this nonce run, so names in the graph data cannot inject any
+	const nonce = crypto.randomBytes(16).toString('base64');
+	const graphData = analysis
+		? JSON.stringify(toGraphData(analysis))
+			.replace(/\\/g, '\\\\')
+			.replace(/'/g, "\\'")
+			// A `</script>` inside a name would otherwise end the script early
+			.replace(/</g, '\\u003c')
+		: 'null';
+	// Inserted as a script literal rather than a string, so only `<` needs escaping
+	const historyData = JSON.stringify(analysis ? analysisHistory?.view ?? null : null).replace(/</g, '\\u003c');
+	const summaryHtml = analysis ? headerHtml(analysis) : '';
 
 	return `<!DOCTYPE html>
 <html lang="en">
 <head>
 <meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} data:; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
 <meta name="viewport" content="width=device-width, initial-scale=1.0">
 <title>Dependency Impact Graph</title>
 <style>
@@ -329,6 +1171,34 @@ body {
 	flex-shrink: 0;
 }
 h1 { font-size: 18px; font-weight: 600; margin-bottom: 2px; }
+.title-row {
+	display: flex;
+	align-items: center;
+	justify-content: space-between;
+	gap: 12px;
+}
+.history-nav {
+	display: flex;
+	align-items: center;
+	gap: 4px;
+	font-size: 11px;
+	color: var(--vscode-descriptionForeground, #888);
+}
+.history-nav button {
+	border: 1px solid var(--vscode-panel-border, #333);
+	padding: 2px 8px;
+	border-radius: 4px;
+	font-size: 12px;
+	background: var(--vscode-input-background, #3c3c3c);
+	color: var(--vscode-foreground, #ccc);
+	cursor: pointer;
+}
+.history-nav button:disabled { opacity: 0.4; cursor: default; }
+.history-nav button.active {
+	background: var(--vscode-button-background, #0e639c);
+	color: var(--vscode-button-foreground, #fff);
+}
+.history-position { padding: 0 4px; }
 .symbol-badge {
 	background: var(--vscode-textLink-foreground, #3794ff);
 	color: #fff;
@@ -353,35 +1223,178 @@ h1 { font-size: 18px; font-weight: 600; margin-bottom: 2px; }
 	font-weight: 700;
 	color: var(--vscode-textLink-foreground, #3794ff);
 }
+.summary-value.diff-added { color: #66BB6A; }
+.summary-value.diff-removed { color: #EF5350; }
+.summary-value.refactor-automatic { color: #66BB6A; }
+.summary-value.refactor-manual { color: #FFA726; }
 .summary-label {
 	font-size: 10px;
 	text-transform: uppercase;
 	color: var(--vscode-descriptionForeground, #888);
 	letter-spacing: 0.5px;
 }
+.direction-toggle {
+	display: inline-flex;
+	margin-bottom: 10px;
+	border: 1px solid var(--vscode-panel-border, #333);
+	border-radius: 4px;
+	overflow: hidden;
+}
+.direction-toggle button {
+	border: none;
+	padding: 4px 12px;
+	font-size: 12px;
+	background: var(--vscode-input-background, #3c3c3c);
+	color: var(--vscode-foreground, #ccc);
+	cursor: pointer;
+}
+.direction-toggle button.active {
+	background: var(--vscode-button-background, #0e639c);
+	color: var(--vscode-button-foreground, #fff);
+}
+.refactor-actions { margin-bottom: 10px; }
+.refactor-actions button {
+	border: none;
+	padding: 4px 12px;
+	border-radius: 4px;
+	font-size: 12px;
+	background: var(--vscode-button-background, #0e639c);
+	color: var(--vscode-button-foreground, #fff);
+	cursor: pointer;
+}
 .legend {
 	display: flex;
 	gap: 14px;
 	flex-wrap: wrap;
 	margin-top: 4px;
 }
-.legend-item {
+.legend-item {
+	display: flex;
+	align-items: center;
+	gap: 5px;
+	font-size: 11px;
+	color: var(--vscode-descriptionForeground, #999);
+}
+.legend-dot {
+	width: 10px;
+	height: 10px;
+	border-radius: 50%;
+}
+.legend-ring {
+	width: 10px;
+	height: 10px;
+	border-radius: 50%;
+	border: 2px solid;
+}
+.legend-line {
+	width: 16px;
+	height: 0;
+	border-top: 2px solid;
+}
+.filter-bar {
+	display: flex;
+	align-items: center;
+	flex-wrap: wrap;
+	gap: 6px 12px;
+	padding: 6px 20px;
+	border-bottom: 1px solid var(--vscode-panel-border, #333);
+	font-size: 11px;
+	flex-shrink: 0;
+}
+.filter-group {
+	display: flex;
+	flex-wrap: wrap;
+	gap: 4px;
+}
+.filter-bar button {
+	display: inline-flex;
+	align-items: center;
+	gap: 4px;
+	border: 1px solid var(--vscode-panel-border, #333);
+	padding: 2px 8px;
+	border-radius: 10px;
+	font-size: 11px;
+	background: var(--vscode-input-background, #3c3c3c);
+	color: var(--vscode-foreground, #ccc);
+	cursor: pointer;
+}
+.filter-bar button.off { opacity: 0.45; text-decoration: line-through; }
+.filter-bar input {
+	width: 190px;
+	padding: 3px 6px;
+	border: 1px solid var(--vscode-input-border, #3c3c3c);
+	border-radius: 2px;
+	font-size: 11px;
+	background: var(--vscode-input-background, #3c3c3c);
+	color: var(--vscode-input-foreground, #ccc);
+}
+.filter-bar input:focus { outline: 1px solid var(--vscode-focusBorder, #007fd4); }
+.filter-status {
+	margin-left: auto;
 	display: flex;
 	align-items: center;
-	gap: 5px;
-	font-size: 11px;
-	color: var(--vscode-descriptionForeground, #999);
+	gap: 8px;
+	color: var(--vscode-descriptionForeground, #888);
 }
-.legend-dot {
-	width: 10px;
-	height: 10px;
-	border-radius: 50%;
+.main {
+	flex: 1;
+	display: flex;
+	min-height: 0;
 }
 .graph-container {
 	flex: 1;
 	position: relative;
 	overflow: hidden;
 }
+.ranking {
+	width: 260px;
+	flex-shrink: 0;
+	overflow-y: auto;
+	border-left: 1px solid var(--vscode-panel-border, #333);
+	font-size: 12px;
+}
+.ranking-title {
+	padding: 8px 10px;
+	font-size: 10px;
+	text-transform: uppercase;
+	letter-spacing: 0.5px;
+	color: var(--vscode-descriptionForeground, #888);
+}
+.ranking table {
+	width: 100%;
+	border-collapse: collapse;
+}
+.ranking th {
+	position: sticky;
+	top: 0;
+	padding: 4px 10px;
+	text-align: left;
+	font-weight: 600;
+	background: var(--vscode-editor-background, #1e1e1e);
+	cursor: pointer;
+	user-select: none;
+}
+.ranking th.sorted::after { content: ' ▲'; font-size: 8px; }
+.ranking th.sorted.descending::after { content: ' ▼'; }
+.ranking td {
+	padding: 3px 10px;
+	white-space: nowrap;
+	overflow: hidden;
+	text-overflow: ellipsis;
+	max-width: 150px;
+	font-family: var(--vscode-editor-font-family, monospace);
+}
+.ranking tbody tr { cursor: pointer; }
+.ranking tbody tr:hover { background: var(--vscode-list-hoverBackground, #2a2d2e); }
+.risk-pill {
+	display: inline-block;
+	min-width: 26px;
+	padding: 1px 4px;
+	border-radius: 8px;
+	text-align: center;
+	color: #000;
+	font-weight: 600;
+}
 svg { width: 100%; height: 100%; }
 .tooltip {
 	position: absolute;
@@ -432,6 +1445,30 @@ svg { width: 100%; height: 100%; }
 .controls button:hover {
 	background: var(--vscode-list-hoverBackground, #2a2d2e);
 }
+.controls button.active {
+	background: var(--vscode-button-background, #0e639c);
+	color: var(--vscode-button-foreground, #fff);
+}
+.controls button[hidden] {
+	display: none;
+}
+.layout-switcher {
+	display: flex;
+	flex-direction: column;
+	gap: 4px;
+	margin-top: 8px;
+}
+.cluster circle {
+	fill: var(--vscode-editorWidget-background, #252526);
+	fill-opacity: 0.5;
+	stroke: var(--vscode-panel-border, #444);
+	stroke-dasharray: 4,3;
+}
+.cluster text {
+	fill: var(--vscode-descriptionForeground, #999);
+	font-size: 11px;
+	cursor: pointer;
+}
 .empty-state {
 	display: flex;
 	align-items: center;
@@ -456,11 +1493,31 @@ svg { width: 100%; height: 100%; }
 <body>
 ${analysis ? `
 ${summaryHtml}
+<div class="filter-bar" id="filterBar">
+	<div class="filter-group" id="nodeTypeFilters"></div>
+	<div class="filter-group" id="linkTypeFilters"></div>
+	<input type="search" id="filterSearch" placeholder="Search name or file, e.g. *Service" title="Dims everything but the nodes whose name or file matches; * and ** are wildcards">
+	<input type="text" id="filterExclude" placeholder="Exclude paths, e.g. node_modules, *.test.ts" title="Comma-separated globs; matching files are hidden">
+	<div class="filter-status">
+		<span id="filterStatus"></span>
+		<span id="focusStatus"></span>
+		<button data-filter="reset" title="Show everything again">Reset</button>
+	</div>
+</div>
+<div class="main">
 <div class="graph-container" id="graphContainer">
 	<div class="controls">
-		<button onclick="zoomIn()" title="Zoom In">+</button>
-		<button onclick="zoomOut()" title="Zoom Out">&minus;</button>
-		<button onclick="zoomReset()" title="Reset">&#8634;</button>
+		<button data-control="zoomIn" title="Zoom In">+</button>
+		<button data-control="zoomOut" title="Zoom Out">&minus;</button>
+		<button data-control="zoomReset" title="Reset">&#8634;</button>
+		<button data-control="exportAnalysis" title="Export">&#8681;</button>
+		<div class="layout-switcher" id="layoutSwitcher">
+			<button data-layout="force" title="Force layout">&#10022;</button>
+			<button data-layout="hierarchical" title="Hierarchical layout: one layer per hop, top-down">&#8868;</button>
+			<button data-layout="radial" title="Radial layout: one ring per hop">&#9678;</button>
+			<button data-layout="folders" title="Cluster by folder; click a folder to collapse or expand it">&#9638;</button>
+			<button data-layout="packages" title="Cluster by workspace package; click a package to expand or collapse it">&#9635;</button>
+		</div>
 	</div>
 	<div class="tooltip" id="tooltip">
 		<div class="tooltip-title" id="tooltipTitle"></div>
@@ -468,6 +1525,16 @@ ${summaryHtml}
 	</div>
 	<svg id="graph"></svg>
 </div>
+${analysis.risk ? `
+<aside class="ranking">
+	<div class="ranking-title">Check First</div>
+	<table>
+		<thead><tr><th data-sort="risk">Risk</th><th data-sort="name">Location</th><th data-sort="depth">Hops</th></tr></thead>
+		<tbody id="rankingBody"></tbody>
+	</table>
+</aside>
+` : ''}
+</div>
 ` : `
 <div class="empty-state">
 	<div class="empty-icon">&#9670;</div>
@@ -480,8 +1547,8 @@ ${summaryHtml}
 </div>
 `}
 
-<script src="https://d3js.org/d3.v7.min.js"></script>
-<script>
+<script nonce="${nonce}" src="${d3Uri}"></script>
+<script nonce="${nonce}">
 const vscodeApi = acquireVsCodeApi();
 
 const TYPE_COLORS = {
@@ -492,7 +1559,8 @@ const TYPE_COLORS = {
 	test:      '#9C27B0',
 	component: '#00BCD4',
 	import:    '#FFEB3B',
-	type:      '#E91E63'
+	type:      '#E91E63',
+	possible:  '#9E9E9E'
 };
 
 const TYPE_LABELS = {
@@ -503,43 +1571,312 @@ const TYPE_LABELS = {
 	test:      'Test',
 	component: 'Component',
 	import:    'Import',
-	type:      'Type / Interface'
+	type:      'Type / Interface',
+	possible:  'Possible Reference'
 };
 
 const LINK_COLORS = {
-	defines: '#4CAF50',
-	uses:    '#3794ff',
-	tests:   '#9C27B0',
-	imports: '#FFEB3B'
+	defines:    '#4CAF50',
+	uses:       '#3794ff',
+	tests:      '#9C27B0',
+	imports:    '#FFEB3B',
+	extends:    '#FF7043',
+	implements: '#26A69A',
+	mentions:   '#9E9E9E'
 };
 
+// Edges and nodes on an import or call cycle override their type colour
+const CYCLE_COLOR = '#f44336';
+// Imports that break an architecture rule override both
+const VIOLATION_COLOR = '#E040FB';
+
+// In a comparison, what appeared or disappeared since the earlier analysis overrides the rest
+const DIFF_COLORS = { added: '#66BB6A', removed: '#EF5350' };
+// In a refactor preview, whether the edit takes care of a dependent or someone has to
+const REFACTOR_COLORS = { automatic: '#66BB6A', manual: '#FFA726' };
+const EDGE_COLORS = { ...LINK_COLORS, cycle: CYCLE_COLOR, violation: VIOLATION_COLOR, ...DIFF_COLORS };
+
+function isDiffChange(d) {
+	return d.diff === 'added' || d.diff === 'removed';
+}
+
+function linkColorKey(d) {
+	return d.violation ? 'violation' : isDiffChange(d) ? d.diff : d.cycle ? 'cycle' : d.type;
+}
+
 // ── Build legend ───────────────────────────────
-function buildLegend(nodes) {
+// Type hierarchy edges are the only link kinds whose meaning is not obvious from the layout
+const LEGEND_LINK_LABELS = {
+	extends:    'Extends',
+	implements: 'Implements',
+	mentions:   'Text mention'
+};
+
+function buildLegend(nodes, links) {
 	const legendEl = document.getElementById('legend');
 	if (!legendEl) return;
 	const types = [...new Set(nodes.map(n => n.type))];
+	const linkTypes = [...new Set(links.map(l => l.type))].filter(t => LEGEND_LINK_LABELS[t]);
+	const linkEntries = linkTypes.map(t => [LINK_COLORS[t], LEGEND_LINK_LABELS[t]]);
+	if (links.some(l => l.cycle)) linkEntries.push([CYCLE_COLOR, 'Cycle']);
+	if (links.some(l => l.violation)) linkEntries.push([VIOLATION_COLOR, 'Rule violation']);
+	if (nodes.some(n => n.diff === 'added')) linkEntries.push([DIFF_COLORS.added, 'Added']);
+	if (nodes.some(n => n.diff === 'removed')) linkEntries.push([DIFF_COLORS.removed, 'Removed']);
+	const ringEntries = [];
+	if (nodes.some(n => n.refactor === 'automatic')) ringEntries.push([REFACTOR_COLORS.automatic, 'Updated automatically']);
+	if (nodes.some(n => n.refactor === 'manual')) ringEntries.push([REFACTOR_COLORS.manual, 'Needs manual attention']);
 	legendEl.innerHTML = types.map(t =>
 		'<div class="legend-item"><div class="legend-dot" style="background:' + TYPE_COLORS[t] + '"></div>' + TYPE_LABELS[t] + '</div>'
-	).join('');
+	).concat(ringEntries.map(([color, label]) =>
+		'<div class="legend-item"><div class="legend-ring" style="border-color:' + color + '"></div>' + label + '</div>'
+	)).concat(linkEntries.map(([color, label]) =>
+		'<div class="legend-item"><div class="legend-line" style="border-color:' + color + '"></div>' + label + '</div>'
+	)).join('');
+}
+
+// ── Filters ──────────────────────────────────
+const FILTER_LINK_LABELS = {
+	defines:    'Defines',
+	uses:       'Uses',
+	tests:      'Tests',
+	imports:    'Imports',
+	extends:    'Extends',
+	implements: 'Implements',
+	mentions:   'Mentions'
+};
+const FILTER_DEFAULTS = { hiddenNodeTypes: [], hiddenLinkTypes: [], search: '', exclude: '', focus: null };
+
+// Kept in the webview state, so the filters outlive re-renders and later analyses
+let filters = { ...FILTER_DEFAULTS, ...((vscodeApi.getState() || {}).filters || {}) };
+
+function saveFilters() {
+	vscodeApi.setState({ ...(vscodeApi.getState() || {}), filters });
+}
+
+// Same wildcards as the architecture rules, but a pattern may match whole path segments
+// anywhere, so \`node_modules\` or \`*.test.ts\` need no leading \`**/\`
+function globToRegExp(glob) {
+	const pattern = glob.replace(/^\\.?\\//, '').replace(/\\/+$/, '');
+	let source = '';
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === '*' && pattern[i + 1] === '*') {
+			const slash = pattern[i + 2] === '/';
+			source += slash ? '(?:.*/)?' : '.*';
+			i += slash ? 2 : 1;
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else if (char === '{' && pattern.indexOf('}', i) > i) {
+			const end = pattern.indexOf('}', i);
+			source += '(?:' + pattern.slice(i + 1, end).split(',').map(escapeRegExp).join('|') + ')';
+			i = end;
+		} else {
+			source += escapeRegExp(char);
+		}
+	}
+	return new RegExp('(?:^|/)' + source + '(?:/|$)', 'i');
+}
+
+function escapeRegExp(text) {
+	return text.replace(/[.+^$()|[\\]\\\\*?{}]/g, '\\\\$&');
+}
+
+function nodePath(d) {
+	return (d.uri || '').replace(/\\\\/g, '/');
+}
+
+// Links hold ids until the simulation swaps in the node objects
+function endId(end) {
+	return typeof end === 'object' ? end.id : end;
+}
+
+function focusedNode(data) {
+	const focus = filters.focus;
+	return focus && focus.symbol === data.symbol
+		? data.nodes.find(d => d.uri === focus.uri && d.name === focus.name)
+		: undefined;
+}
+
+// Hidden types and excluded paths drop out of the graph; the analyzed symbol always stays.
+// In focus mode only the focused node and its direct neighbours remain.
+function applyFilters(data) {
+	const excludes = filters.exclude.split(',').map(p => p.trim()).filter(Boolean).map(globToRegExp);
+	let nodes = data.nodes.filter(d => d.isRoot
+		|| (!filters.hiddenNodeTypes.includes(d.type) && !excludes.some(re => re.test(nodePath(d)))));
+	const ids = new Set(nodes.map(d => d.id));
+	let links = data.links.filter(l => !filters.hiddenLinkTypes.includes(l.type)
+		&& ids.has(endId(l.source)) && ids.has(endId(l.target)));
+
+	const focus = focusedNode(data);
+	if (focus && ids.has(focus.id)) {
+		const neighbourhood = new Set([focus.id]);
+		links.forEach(l => {
+			if (endId(l.source) === focus.id) neighbourhood.add(endId(l.target));
+			if (endId(l.target) === focus.id) neighbourhood.add(endId(l.source));
+		});
+		nodes = nodes.filter(d => neighbourhood.has(d.id));
+		links = links.filter(l => neighbourhood.has(endId(l.source)) && neighbourhood.has(endId(l.target)));
+	}
+	return { ...data, nodes, links };
+}
+
+// A search with wildcards is a glob over names and paths, anything else a substring of either
+function searchMatcher() {
+	const search = filters.search.trim();
+	if (!search) return undefined;
+	if (/[*?{]/.test(search)) {
+		const re = globToRegExp(search);
+		return d => re.test(d.name) || re.test(nodePath(d));
+	}
+	const text = search.toLowerCase();
+	return d => d.name.toLowerCase().includes(text) || (d.fileName || '').toLowerCase().includes(text);
+}
+
+function filterChip(kind, type, label, swatch, hidden) {
+	return '<button data-filter="' + kind + '" data-type="' + escapeHtml(type) + '" class="' + (hidden ? 'off' : '') + '"'
+		+ ' title="' + (hidden ? 'Show ' : 'Hide ') + escapeHtml(label) + '">' + swatch + escapeHtml(label) + '</button>';
+}
+
+function renderFilterBar(data) {
+	const nodeFilters = document.getElementById('nodeTypeFilters');
+	if (!nodeFilters) return;
+	const nodeTypes = [...new Set(data.nodes.filter(d => !d.isRoot).map(d => d.type))];
+	const linkTypes = [...new Set(data.links.map(l => l.type))];
+	nodeFilters.innerHTML = nodeTypes.map(t => filterChip('node', t, TYPE_LABELS[t] || t,
+		'<span class="legend-dot" style="background:' + TYPE_COLORS[t] + '"></span>', filters.hiddenNodeTypes.includes(t))).join('');
+	document.getElementById('linkTypeFilters').innerHTML = linkTypes.map(t => filterChip('link', t, FILTER_LINK_LABELS[t] || t,
+		'<span class="legend-line" style="border-color:' + LINK_COLORS[t] + '"></span>', filters.hiddenLinkTypes.includes(t))).join('');
+
+	// Leave the field being typed in alone, or the caret would jump
+	[['filterSearch', filters.search], ['filterExclude', filters.exclude]].forEach(([id, value]) => {
+		const input = document.getElementById(id);
+		if (document.activeElement !== input) input.value = value;
+	});
+
+	const focus = focusedNode(data);
+	document.getElementById('focusStatus').innerHTML = focus
+		? 'Focus: ' + escapeHtml(rankingLabel(focus)) + ' <button data-filter="unfocus" title="Show the whole graph">&times;</button>'
+		: '';
+}
+
+function updateFilterStatus() {
+	const status = document.getElementById('filterStatus');
+	if (!status || !currentData || !visibleData) return;
+	const matches = searchMatcher();
+	const parts = [];
+	if (visibleData.nodes.length < currentData.nodes.length) {
+		parts.push(visibleData.nodes.length + ' of ' + currentData.nodes.length + ' nodes');
+	}
+	if (matches) {
+		const count = visibleData.nodes.filter(matches).length;
+		parts.push(count + ' match' + (count !== 1 ? 'es' : ''));
+	}
+	status.textContent = parts.join(' · ');
+}
+
+function searchOpacity(d) {
+	const matches = searchMatcher();
+	return !matches || matches(d) ? 1 : 0.15;
+}
+
+function linkOpacity(l) {
+	const matches = searchMatcher();
+	return !matches || matches(l.source) || matches(l.target) ? 0.5 : 0.05;
+}
+
+// Searching only dims the graph, it does not lay it out again
+function applySearch() {
+	if (nodeSelection) nodeSelection.attr('opacity', searchOpacity);
+	if (linkSelection) linkSelection.attr('stroke-opacity', linkOpacity);
+	updateFilterStatus();
+}
+
+function setFocus(d) {
+	filters.focus = { symbol: currentData.symbol, uri: d.uri, name: d.name };
+	saveFilters();
+	renderGraph(currentData, true);
+}
+
+const filterBar = document.getElementById('filterBar');
+if (filterBar) {
+	filterBar.addEventListener('click', event => {
+		const button = event.target.closest('button[data-filter]');
+		if (!button || !currentData) return;
+		const { filter, type } = button.dataset;
+		if (filter === 'node' || filter === 'link') {
+			const key = filter === 'node' ? 'hiddenNodeTypes' : 'hiddenLinkTypes';
+			filters[key] = filters[key].includes(type) ? filters[key].filter(t => t !== type) : filters[key].concat(type);
+		} else if (filter === 'unfocus') {
+			filters.focus = null;
+		} else if (filter === 'reset') {
+			filters = { ...FILTER_DEFAULTS };
+		}
+		saveFilters();
+		renderGraph(currentData, true);
+	});
+
+	document.getElementById('filterSearch').addEventListener('input', event => {
+		filters.search = event.target.value;
+		saveFilters();
+		applySearch();
+	});
+
+	let excludeTimer;
+	document.getElementById('filterExclude').addEventListener('input', event => {
+		clearTimeout(excludeTimer);
+		excludeTimer = setTimeout(() => {
+			filters.exclude = event.target.value;
+			saveFilters();
+			if (currentData) renderGraph(currentData, true);
+		}, 300);
+	});
 }
 
 // ── D3 Graph Rendering ────────────────────────
-let simulation, svg, g, zoomBehaviour, currentData;
+let simulation, svg, g, zoomBehaviour, currentData, visibleData, nodeSelection, linkSelection, graphSize;
 
-function renderGraph(data) {
-	if (!data) return;
-	currentData = data;
-	buildLegend(data.nodes);
+function isLineNode(d) {
+	return /^L\\d+$/.test(d.name);
+}
 
-	const container = document.getElementById('graphContainer');
-	if (!container) return;
-	const width = container.clientWidth;
-	const height = container.clientHeight;
+// Nodes further away from the analyzed symbol fade out; removed ones are only a trace
+function hopOpacity(d) {
+	if (d.diff === 'removed') return 0.35;
+	// Text search only guesses that these refer to the symbol
+	if (d.type === 'possible') return 0.6;
+	return Math.max(0.9 - Math.max(d.depth - 1, 0) * 0.15, 0.4);
+}
 
-	// Clear previous
-	d3.select('#graph').selectAll('*').remove();
+function nodeStroke(d) {
+	if (d.isRoot) return '#fff';
+	if (isDiffChange(d)) return DIFF_COLORS[d.diff];
+	if (d.refactor) return REFACTOR_COLORS[d.refactor];
+	return d.cycle ? CYCLE_COLOR : 'rgba(255,255,255,0.15)';
+}
+
+function nodeStrokeWidth(d) {
+	return d.isRoot ? 3 : (d.cycle || isDiffChange(d) || d.refactor) ? 2.5 : 1.5;
+}
+
+function nodeRadius(d) {
+	if (d.folder) return 14 + Math.min(d.members, 16);
+	return d.isRoot ? 22 : (isLineNode(d) ? 6 : 12 + Math.min(d.references * 2, 10));
+}
 
-	svg = d3.select('#graph').attr('viewBox', [0, 0, width, height]);
+function linkKey(l) {
+	return endId(l.source) + '>' + endId(l.target) + '>' + l.type;
+}
+
+// Layers of the SVG, created once per page and then updated in place
+let clusterLayer, linkLayer, nodeLayer;
+// The nodes drawn last, by id: a re-run analysis brings new objects for the same code
+let lastDrawn = new Map();
+
+function setUpSvg() {
+	d3.select('#graph').selectAll('*').remove();
+	svg = d3.select('#graph');
 
 	// Zoom
 	zoomBehaviour = d3.zoom()
@@ -547,11 +1884,9 @@ function renderGraph(data) {
 		.on('zoom', (event) => g.attr('transform', event.transform));
 	svg.call(zoomBehaviour);
 
-	g = svg.append('g');
-
 	// Arrowhead markers for each link type
 	const defs = svg.append('defs');
-	Object.entries(LINK_COLORS).forEach(([type, color]) => {
+	Object.entries(EDGE_COLORS).forEach(([type, color]) => {
 		defs.append('marker')
 			.attr('id', 'arrow-' + type)
 			.attr('viewBox', '0 -5 10 10')
@@ -566,59 +1901,145 @@ function renderGraph(data) {
 			.attr('opacity', 0.6);
 	});
 
-	// Links
-	const link = g.append('g')
-		.selectAll('line')
-		.data(data.links)
-		.join('line')
-		.attr('stroke', d => LINK_COLORS[d.type] || '#555')
-		.attr('stroke-opacity', 0.5)
-		.attr('stroke-width', d => d.type === 'defines' ? 2.5 : 1.5)
-		.attr('stroke-dasharray', d => d.type === 'tests' ? '5,3' : null)
-		.attr('marker-end', d => 'url(#arrow-' + d.type + ')');
+	// Glow filter
+	const filter = defs.append('filter').attr('id', 'glow');
+	filter.append('feGaussianBlur').attr('stdDeviation', '3').attr('result', 'coloredBlur');
+	const feMerge = filter.append('feMerge');
+	feMerge.append('feMergeNode').attr('in', 'coloredBlur');
+	feMerge.append('feMergeNode').attr('in', 'SourceGraphic');
+
+	g = svg.append('g');
+	// Folder outlines behind links, links behind nodes
+	clusterLayer = g.append('g');
+	linkLayer = g.append('g');
+	nodeLayer = g.append('g');
+	svg.call(zoomBehaviour.transform, d3.zoomIdentity);
+}
+
+// Nodes keep their place from the previous render; new ones start next to a placed neighbour,
+// so additions grow out of the graph instead of flying in from a corner
+function placeNodes(drawn, width, height) {
+	const byId = new Map(drawn.nodes.map(d => [d.id, d]));
+	drawn.nodes.filter(d => d.x === undefined && lastDrawn.has(d.id)).forEach(d => {
+		const last = lastDrawn.get(d.id);
+		d.x = last.x;
+		d.y = last.y;
+	});
+	drawn.links.forEach(l => {
+		const source = byId.get(endId(l.source));
+		const target = byId.get(endId(l.target));
+		if (!source || !target || (source.x === undefined) === (target.x === undefined)) return;
+		const [placed, unplaced] = source.x === undefined ? [target, source] : [source, target];
+		unplaced.x = placed.x + (Math.random() - 0.5) * 40;
+		unplaced.y = placed.y + (Math.random() - 0.5) * 40;
+	});
+	drawn.nodes.filter(d => d.x === undefined).forEach(d => { d.x = width / 2; d.y = height / 2; });
+}
+
+// Filter changes and real-time updates keep the pan, zoom and node positions of the previous
+// render: nodes and links are matched by id, and only added or removed ones fade in or out
+function renderGraph(data, keepView) {
+	if (!data) return;
+	currentData = data;
+	if (filters.focus && !focusedNode(data)) {
+		filters.focus = null;
+		saveFilters();
+	}
+	visibleData = applyFilters(data);
+	buildLegend(data.nodes, data.links);
+	renderFilterBar(data);
+	updateBlastRadius(data.risk);
+	renderRanking(visibleData.nodes);
+
+	const container = document.getElementById('graphContainer');
+	if (!container) return;
+	const width = container.clientWidth;
+	const height = container.clientHeight;
+
+	if (simulation) simulation.stop();
+	const incremental = keepView && g;
+	if (!incremental) setUpSvg();
+	svg.attr('viewBox', [0, 0, width, height]);
+
+	graphSize = { width, height };
+	renderLayoutSwitcher(data);
+
+	// Collapsed folders and packages only change what is drawn; the ranking still lists every location
+	const drawn = isClustered() ? collapseClusters(visibleData) : visibleData;
+	if (incremental) placeNodes(drawn, width, height);
+	lastDrawn = new Map(drawn.nodes.map(d => [d.id, d]));
+
+	// Folder and package outlines
+	const cluster = clusterLayer.selectAll('g.cluster')
+		.data(isClustered() ? clusters(drawn.nodes) : [], c => c.folder)
+		.join(enter => {
+			const el = enter.append('g').attr('class', 'cluster');
+			el.append('circle');
+			el.append('text')
+				.attr('text-anchor', 'middle')
+				.on('click', (event, c) => toggleCluster(c.folder));
+			el.append('title');
+			return el;
+		});
+	cluster.select('text').text(c => '▾ ' + clusterLabel(c.folder) + ' (' + c.nodes.length + ')');
+	cluster.select('title').text(c => c.folder ? c.folder + ' (click to collapse)' : clusterLabel(c.folder));
+
+	// Links; leaving ones are marked so a quick re-render does not pick them up again
+	const link = linkLayer.selectAll('line:not(.exiting)')
+		.data(drawn.links, linkKey)
+		.join(
+			enter => enter.append('line').attr('stroke-opacity', 0),
+			update => update,
+			exit => exit.classed('exiting', true).transition().duration(300).attr('stroke-opacity', 0).remove()
+		)
+		.attr('stroke', d => EDGE_COLORS[linkColorKey(d)] || '#555')
+		.attr('stroke-width', d => d.violation ? 3 : (d.cycle || d.type === 'defines' || d.type === 'extends' || d.type === 'implements') ? 2.5 : 1.5)
+		.attr('stroke-dasharray', d => d.violation ? '8,4' : d.diff === 'removed' ? '3,3' : d.type === 'tests' ? '5,3' : d.type === 'implements' ? '2,2' : d.type === 'mentions' ? '4,4' : null)
+		.attr('marker-end', d => 'url(#arrow-' + linkColorKey(d) + ')');
+
+	link.selectAll('title')
+		.data(d => d.violation ? [d.violation] : [])
+		.join('title')
+		.text(violation => violation);
 
 	// Nodes
-	const node = g.append('g')
-		.selectAll('g')
-		.data(data.nodes)
-		.join('g')
-		.attr('cursor', 'pointer')
+	const node = nodeLayer.selectAll('g.node:not(.exiting)')
+		.data(drawn.nodes, d => d.id)
+		.join(
+			enter => {
+				const el = enter.append('g').attr('class', 'node').attr('cursor', 'pointer').attr('opacity', 0);
+				el.append('circle');
+				el.append('text')
+					.attr('text-anchor', 'middle')
+					.attr('fill', 'var(--vscode-foreground, #ccc)')
+					.attr('font-family', 'var(--vscode-editor-font-family, monospace)')
+					.attr('pointer-events', 'none');
+				return el;
+			},
+			update => update,
+			exit => exit.classed('exiting', true).transition().duration(300).attr('opacity', 0).remove()
+		)
 		.call(d3.drag()
 			.on('start', dragStart)
 			.on('drag', dragging)
 			.on('end', dragEnd));
 
-	// Node circles
-	node.append('circle')
-		.attr('r', d => d.isRoot ? 22 : (d.name.startsWith('L') ? 6 : 12 + Math.min(d.references * 2, 10)))
-		.attr('fill', d => TYPE_COLORS[d.type] || '#666')
-		.attr('stroke', d => d.isRoot ? '#fff' : 'rgba(255,255,255,0.15)')
-		.attr('stroke-width', d => d.isRoot ? 3 : 1.5)
-		.attr('opacity', 0.9);
-
-	// Glow effect on root
-	node.filter(d => d.isRoot)
-		.select('circle')
-		.attr('filter', 'url(#glow)');
-
-	// Glow filter
-	const filter = defs.append('filter').attr('id', 'glow');
-	filter.append('feGaussianBlur').attr('stdDeviation', '3').attr('result', 'coloredBlur');
-	const feMerge = filter.append('feMerge');
-	feMerge.append('feMergeNode').attr('in', 'coloredBlur');
-	feMerge.append('feMergeNode').attr('in', 'SourceGraphic');
+	// Node circles, with a glow on the root
+	node.select('circle')
+		.attr('r', nodeRadius)
+		.attr('fill', d => d.folder ? FOLDER_COLOR : TYPE_COLORS[d.type] || '#666')
+		.attr('stroke', nodeStroke)
+		.attr('stroke-width', nodeStrokeWidth)
+		.attr('stroke-dasharray', d => d.diff === 'removed' ? '3,2' : d.folder ? '4,2' : d.type === 'possible' ? '3,3' : null)
+		.attr('opacity', d => hopOpacity(d))
+		.attr('filter', d => d.isRoot ? 'url(#glow)' : null);
 
 	// Labels (only for file-level and root nodes)
-	node.filter(d => !d.name.startsWith('L'))
-		.append('text')
-		.text(d => d.isRoot ? d.name : d.name)
+	node.select('text')
+		.text(d => isLineNode(d) ? '' : d.name)
 		.attr('dy', d => d.isRoot ? 34 : 24)
-		.attr('text-anchor', 'middle')
-		.attr('fill', 'var(--vscode-foreground, #ccc)')
 		.attr('font-size', d => d.isRoot ? '13px' : '10px')
-		.attr('font-weight', d => d.isRoot ? '700' : '400')
-		.attr('font-family', 'var(--vscode-editor-font-family, monospace)')
-		.attr('pointer-events', 'none');
+		.attr('font-weight', d => d.isRoot ? '700' : '400');
 
 	// Tooltip & click
 	node.on('mouseover', function(event, d) {
@@ -632,18 +2053,27 @@ function renderGraph(data) {
 	})
 	.on('mouseout', function() {
 		hideTooltip();
-		d3.select(this).select('circle').transition().duration(150).attr('opacity', 0.9).attr('stroke-width', d => d.isRoot ? 3 : 1.5);
-		link.attr('stroke-opacity', 0.5);
+		d3.select(this).select('circle').transition().duration(150).attr('opacity', d => hopOpacity(d)).attr('stroke-width', nodeStrokeWidth);
+		link.attr('stroke-opacity', linkOpacity);
 	})
 	.on('click', function(event, d) {
-		if (!d.isRoot && d.uri) {
+		if (d.folder) {
+			hideTooltip();
+			toggleCluster(d.folder);
+		} else if (!d.isRoot && d.uri) {
 			vscodeApi.postMessage({ command: 'openFile', uri: d.uri, line: d.line });
 		}
+	})
+	.on('contextmenu', function(event, d) {
+		event.preventDefault();
+		if (d.folder) return;
+		hideTooltip();
+		setFocus(d);
 	});
 
 	// Force simulation
-	simulation = d3.forceSimulation(data.nodes)
-		.force('link', d3.forceLink(data.links).id(d => d.id).distance(d => {
+	simulation = d3.forceSimulation(drawn.nodes)
+		.force('link', d3.forceLink(drawn.links).id(d => d.id).distance(d => {
 			if (d.type === 'defines') return 80;
 			if (d.source.isRoot || d.target.isRoot) return 140;
 			return 60;
@@ -658,14 +2088,353 @@ function renderGraph(data) {
 				.attr('x2', d => d.target.x)
 				.attr('y2', d => d.target.y);
 			node.attr('transform', d => 'translate(' + d.x + ',' + d.y + ')');
+			cluster.each(updateCluster);
 		});
+	applyLayout(drawn.nodes, drawn.links);
+	if (incremental) simulation.alpha(0.3);
+
+	nodeSelection = node;
+	linkSelection = link;
+	updateFilterStatus();
 
-	// Animate nodes in
-	node.attr('opacity', 0)
-		.transition()
-		.delay((d, i) => i * 30)
+	// Fade in what is new; a fresh graph appears node by node
+	link.transition().duration(400).attr('stroke-opacity', linkOpacity);
+	node.transition()
+		.delay((d, i) => incremental ? 0 : i * 30)
 		.duration(400)
-		.attr('opacity', 1);
+		.attr('opacity', searchOpacity);
+}
+
+// ── Layouts ──────────────────────────────────
+const FOLDER_COLOR = '#607D8B';
+
+// Kept in the webview state next to the filters
+let layoutState = { kind: 'force', collapsedFolders: [], expandedPackages: [], ...((vscodeApi.getState() || {}).layout || {}) };
+// Where the analyzed symbol is pinned in the current layout, if anywhere
+let rootAnchor = null;
+
+function saveLayoutState() {
+	vscodeApi.setState({ ...(vscodeApi.getState() || {}), layout: layoutState });
+}
+
+// Every layout is the force simulation plus positioning forces, so switching between them
+// animates the nodes from where they are to where the new layout wants them
+function applyLayout(nodes, links) {
+	const { width, height } = graphSize;
+	const root = nodes.find(d => d.isRoot);
+	simulation.force('x', null).force('y', null).force('radial', null);
+	rootAnchor = null;
+
+	if (layoutState.kind === 'hierarchical' || layoutState.kind === 'radial') {
+		const layers = computeLayers(nodes, links);
+		const deepest = Math.max(1, ...layers.values());
+		simulation.force('link').strength(0.1);
+		if (layoutState.kind === 'hierarchical') {
+			const gap = Math.min(120, (height - 80) / deepest);
+			simulation
+				.force('y', d3.forceY(d => 40 + layers.get(d.id) * gap).strength(1))
+				.force('x', d3.forceX(width / 2).strength(0.05));
+			rootAnchor = { x: width / 2, y: 40 };
+		} else {
+			const ring = Math.min(110, (Math.min(width, height) / 2 - 40) / deepest);
+			simulation.force('radial', d3.forceRadial(d => layers.get(d.id) * ring, width / 2, height / 2).strength(1));
+			rootAnchor = { x: width / 2, y: height / 2 };
+		}
+	} else if (isClustered()) {
+		// Folders or packages sit on a circle around the middle, each pulling its files together
+		const folders = [...new Set(nodes.map(clusterOf))].sort();
+		const radius = folders.length > 1 ? Math.min(width, height) * 0.35 : 0;
+		const centers = new Map(folders.map((folder, i) => {
+			const angle = 2 * Math.PI * i / folders.length;
+			return [folder, { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) }];
+		}));
+		simulation
+			.force('x', d3.forceX(d => centers.get(clusterOf(d)).x).strength(0.2))
+			.force('y', d3.forceY(d => centers.get(clusterOf(d)).y).strength(0.2))
+			.force('charge', d3.forceManyBody().strength(d => d.isRoot ? -200 : -60));
+		simulation.force('link').strength(0.05);
+	}
+
+	if (root) {
+		root.fx = rootAnchor ? rootAnchor.x : null;
+		root.fy = rootAnchor ? rootAnchor.y : null;
+	}
+}
+
+// Hops from the analyzed symbol. A module graph (or a focus without the root) has no hops, so
+// its files are layered by how far down the links they are from those nothing points to.
+function computeLayers(nodes, links) {
+	const layers = new Map();
+	if (nodes.some(d => d.isRoot)) {
+		nodes.forEach(d => layers.set(d.id, d.depth));
+		return layers;
+	}
+
+	const targets = new Map();
+	links.forEach(l => {
+		const source = endId(l.source);
+		if (!targets.has(source)) targets.set(source, []);
+		targets.get(source).push(endId(l.target));
+	});
+	const pointedTo = new Set(links.map(l => endId(l.target)));
+	let frontier = nodes.filter(d => !pointedTo.has(d.id)).map(d => d.id);
+	frontier.forEach(id => layers.set(id, 0));
+	for (let layer = 1; frontier.length > 0; layer++) {
+		const next = [];
+		frontier.forEach(id => (targets.get(id) || []).forEach(target => {
+			if (!layers.has(target)) {
+				layers.set(target, layer);
+				next.push(target);
+			}
+		}));
+		frontier = next;
+	}
+	// Files only reachable through a cycle stay on top
+	nodes.forEach(d => { if (!layers.has(d.id)) layers.set(d.id, 0); });
+	return layers;
+}
+
+function folderOf(d) {
+	if (d.folder) return d.folder;
+	const path = nodePath(d);
+	return path.slice(0, path.lastIndexOf('/')) || '/';
+}
+
+function folderLabel(folder) {
+	return folder.split('/').filter(Boolean).slice(-2).join('/') || folder;
+}
+
+function isClustered() {
+	return layoutState.kind === 'folders' || layoutState.kind === 'packages';
+}
+
+// The folder, or in the package layout the package, a node is grouped into. Files outside
+// every package share the empty key.
+function clusterOf(d) {
+	if (d.folder) return d.folder;
+	return layoutState.kind === 'packages' ? d.package || '' : folderOf(d);
+}
+
+function clusterLabel(key) {
+	return layoutState.kind === 'packages' ? key || 'other files' : folderLabel(key);
+}
+
+// Folders start expanded; packages start collapsed, so the graph first shows how impact flows between them
+function isCollapsed(key) {
+	return layoutState.kind === 'packages'
+		? !!key && !layoutState.expandedPackages.includes(key)
+		: layoutState.collapsedFolders.includes(key);
+}
+
+// Each collapsed folder or package becomes one node; its links are redirected to it and merged
+function collapseClusters(data) {
+	const members = new Map();
+	data.nodes.forEach(d => {
+		const folder = clusterOf(d);
+		if (d.isRoot || !isCollapsed(folder)) return;
+		if (!members.has(folder)) members.set(folder, []);
+		members.get(folder).push(d);
+	});
+	if (members.size === 0) return data;
+
+	const replacement = new Map();
+	const folderNodes = [...members].map(([folder, group]) => {
+		const id = (layoutState.kind === 'packages' ? 'package:' : 'folder:') + folder;
+		group.forEach(d => replacement.set(d.id, id));
+		const placed = group.filter(d => d.x !== undefined);
+		return {
+			id,
+			name: '▸ ' + clusterLabel(folder) + ' (' + group.length + ')',
+			fileName: clusterLabel(folder),
+			uri: folder,
+			line: 0,
+			type: 'folder',
+			references: d3.sum(group, d => d.references),
+			isRoot: false,
+			depth: d3.min(group, d => d.depth),
+			cycle: group.some(d => d.cycle),
+			folder,
+			members: group.length,
+			// Unfold from where the files were
+			x: placed.length ? d3.mean(placed, d => d.x) : undefined,
+			y: placed.length ? d3.mean(placed, d => d.y) : undefined
+		};
+	});
+
+	const links = new Map();
+	data.links.forEach(l => {
+		const source = replacement.get(endId(l.source)) || endId(l.source);
+		const target = replacement.get(endId(l.target)) || endId(l.target);
+		const key = source + '>' + target + '>' + l.type;
+		if (source !== target && !links.has(key)) links.set(key, { ...l, source, target });
+	});
+	return {
+		...data,
+		nodes: data.nodes.filter(d => !replacement.has(d.id)).concat(folderNodes),
+		links: [...links.values()]
+	};
+}
+
+function clusters(nodes) {
+	const groups = new Map();
+	nodes.filter(d => !d.folder).forEach(d => {
+		const folder = clusterOf(d);
+		if (!groups.has(folder)) groups.set(folder, { folder, nodes: [] });
+		groups.get(folder).nodes.push(d);
+	});
+	return [...groups.values()];
+}
+
+// Circle around the folder's or package's files, with the label on top
+function updateCluster(c) {
+	const x = d3.mean(c.nodes, d => d.x);
+	const y = d3.mean(c.nodes, d => d.y);
+	const r = d3.max(c.nodes, d => Math.hypot(d.x - x, d.y - y) + nodeRadius(d)) + 12;
+	const el = d3.select(this);
+	el.select('circle').attr('cx', x).attr('cy', y).attr('r', r);
+	el.select('text').attr('x', x).attr('y', y - r - 6);
+}
+
+function toggleCluster(key) {
+	const list = layoutState.kind === 'packages' ? 'expandedPackages' : 'collapsedFolders';
+	const keys = layoutState[list];
+	layoutState[list] = keys.includes(key) ? keys.filter(k => k !== key) : keys.concat(key);
+	saveLayoutState();
+	renderGraph(currentData, true);
+}
+
+// The package layout is only offered when the workspace has several packages
+function renderLayoutSwitcher(data) {
+	const hasPackages = data.nodes.some(d => d.package);
+	if (layoutState.kind === 'packages' && !hasPackages) layoutState.kind = 'folders';
+	document.querySelectorAll('#layoutSwitcher button').forEach(button => {
+		button.hidden = button.dataset.layout === 'packages' && !hasPackages;
+		button.classList.toggle('active', button.dataset.layout === layoutState.kind);
+	});
+}
+
+const layoutSwitcher = document.getElementById('layoutSwitcher');
+if (layoutSwitcher) {
+	layoutSwitcher.addEventListener('click', event => {
+		const button = event.target.closest('button[data-layout]');
+		if (!button || !currentData || button.dataset.layout === layoutState.kind) return;
+		layoutState.kind = button.dataset.layout;
+		saveLayoutState();
+		renderGraph(currentData, true);
+		simulation.alpha(1).restart();
+	});
+}
+
+// ── Risk Ranking ─────────────────────────────
+const RISK_COLORS = { low: '#4CAF50', medium: '#FFC107', high: '#FF9800', critical: '#f44336' };
+const RISK_LABELS = { low: 'Low', medium: 'Medium', high: 'High', critical: 'Critical' };
+let rankingSort = { key: 'risk', descending: true };
+
+function riskColor(score) {
+	return RISK_COLORS[score >= 75 ? 'critical' : score >= 50 ? 'high' : score >= 25 ? 'medium' : 'low'];
+}
+
+function escapeHtml(text) {
+	return String(text).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+}
+
+function updateBlastRadius(risk) {
+	const value = document.getElementById('blastRadius');
+	const label = document.getElementById('blastRadiusScore');
+	if (!value || !risk) return;
+	value.textContent = RISK_LABELS[risk.rating];
+	value.style.color = RISK_COLORS[risk.rating];
+	label.textContent = 'Blast Radius · ' + risk.score + '/100';
+}
+
+function rankingLabel(d) {
+	return (isLineNode(d) || d.name === d.fileName) ? d.fileName + ':' + d.line : d.name;
+}
+
+function renderRanking(nodes) {
+	const body = document.getElementById('rankingBody');
+	if (!body) return;
+	const { key, descending } = rankingSort;
+	const rows = nodes.filter(d => !d.isRoot && d.risk !== undefined).sort((a, b) => {
+		const order = key === 'name' ? rankingLabel(a).localeCompare(rankingLabel(b)) : a[key] - b[key];
+		return descending ? -order : order;
+	});
+	body.innerHTML = rows.map(d =>
+		'<tr data-uri="' + escapeHtml(d.uri) + '" data-line="' + d.line + '">'
+		+ '<td><span class="risk-pill" style="background:' + riskColor(d.risk) + '">' + d.risk + '</span></td>'
+		+ '<td title="' + escapeHtml(d.uri + ':' + d.line) + '">' + escapeHtml(rankingLabel(d)) + '</td>'
+		+ '<td>' + d.depth + '</td></tr>'
+	).join('');
+	document.querySelectorAll('.ranking th').forEach(th => {
+		th.classList.toggle('sorted', th.dataset.sort === key);
+		th.classList.toggle('descending', descending);
+	});
+}
+
+document.querySelectorAll('.ranking th').forEach(th => th.addEventListener('click', () => {
+	const key = th.dataset.sort;
+	// Riskiest first, everything else ascending; clicking the sorted column again flips it
+	rankingSort = { key, descending: rankingSort.key === key ? !rankingSort.descending : key === 'risk' };
+	if (visibleData) renderRanking(visibleData.nodes);
+}));
+
+const rankingBody = document.getElementById('rankingBody');
+if (rankingBody) {
+	rankingBody.addEventListener('click', event => {
+		const row = event.target.closest('tr');
+		if (row) vscodeApi.postMessage({ command: 'openFile', uri: row.dataset.uri, line: Number(row.dataset.line) });
+	});
+}
+
+// ── Export ───────────────────────────────────
+function exportAnalysis() {
+	vscodeApi.postMessage({ command: 'export' });
+}
+
+// Standalone copy of the current render: theme variables only resolve inside the webview,
+// so text colours and fonts are copied from the live elements
+function snapshotSvg() {
+	const source = document.getElementById('graph');
+	if (!source) return undefined;
+	const rect = source.getBoundingClientRect();
+	const clone = source.cloneNode(true);
+	clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+	clone.setAttribute('width', rect.width);
+	clone.setAttribute('height', rect.height);
+
+	const liveTexts = source.querySelectorAll('text');
+	clone.querySelectorAll('text').forEach((text, i) => {
+		const style = getComputedStyle(liveTexts[i]);
+		text.setAttribute('fill', style.fill);
+		text.setAttribute('font-family', style.fontFamily);
+	});
+
+	const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+	background.setAttribute('width', '100%');
+	background.setAttribute('height', '100%');
+	background.setAttribute('fill', getComputedStyle(document.body).backgroundColor);
+	clone.insertBefore(background, clone.firstChild);
+
+	return new XMLSerializer().serializeToString(clone);
+}
+
+// Rasterizes the SVG snapshot at twice the panel's size; resolves to base64 PNG data
+function snapshotPng(svgText) {
+	const rect = document.getElementById('graph').getBoundingClientRect();
+	return new Promise((resolve, reject) => {
+		const image = new Image();
+		image.onload = () => {
+			const canvas = document.createElement('canvas');
+			canvas.width = rect.width * 2;
+			canvas.height = rect.height * 2;
+			const context = canvas.getContext('2d');
+			context.scale(2, 2);
+			context.drawImage(image, 0, 0, rect.width, rect.height);
+			resolve(canvas.toDataURL('image/png').split(',')[1]);
+		};
+		image.onerror = reject;
+		image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svgText);
+	});
 }
 
 // ── Tooltip ──────────────────────────────────
@@ -673,8 +2442,25 @@ function showTooltip(event, d) {
 	const tt = document.getElementById('tooltip');
 	const title = document.getElementById('tooltipTitle');
 	const meta = document.getElementById('tooltipMeta');
-	title.textContent = d.isRoot ? d.name + ' (source)' : d.fileName + ':' + d.line;
-	meta.textContent = TYPE_LABELS[d.type] + ' · ' + d.references + ' reference' + (d.references !== 1 ? 's' : '');
+	if (d.folder) {
+		title.textContent = d.folder;
+		meta.textContent = d.members + ' location' + (d.members !== 1 ? 's' : '') + ' · click to expand';
+		tt.classList.add('visible');
+		moveTooltip(event);
+		return;
+	}
+	title.textContent = d.isRoot ? d.name + ' (source)'
+		: (isLineNode(d) || d.name === d.fileName) ? d.fileName + ':' + d.line
+		: d.name + ' — ' + d.fileName + ':' + d.line;
+	meta.textContent = TYPE_LABELS[d.type] + ' · ' + d.references + ' reference' + (d.references !== 1 ? 's' : '')
+		+ (d.depth === 0 ? '' : ' · ' + d.depth + ' hop' + (d.depth !== 1 ? 's' : '') + ' away')
+		+ (d.cycle ? ' · in a cycle' : '')
+		+ (d.diff === 'added' ? ' · newly impacted' : d.diff === 'removed' ? ' · no longer impacted' : '')
+		+ (d.refactor === 'automatic' ? ' · updated automatically' : '')
+		+ (d.refactor === 'manual' ? ' · needs manual attention: ' + d.refactorNotes.join('; ') : '')
+		+ (d.risk !== undefined ? ' · risk ' + d.risk : '')
+		+ (d.package ? ' · ' + d.package : '')
+		+ (d.excerpt ? ' · ' + d.excerpt : '');
 	tt.classList.add('visible');
 	moveTooltip(event);
 }
@@ -699,7 +2485,10 @@ function dragStart(event, d) {
 function dragging(event, d) { d.fx = event.x; d.fy = event.y; }
 function dragEnd(event, d) {
 	if (!event.active) simulation.alphaTarget(0);
-	d.fx = null; d.fy = null;
+	// The analyzed symbol returns to its place in the hierarchical and radial layouts
+	const anchor = d.isRoot ? rootAnchor : null;
+	d.fx = anchor ? anchor.x : null;
+	d.fy = anchor ? anchor.y : null;
 }
 
 // ── Zoom Controls ────────────────────────────
@@ -717,17 +2506,76 @@ function zoomReset() {
 	);
 }
 
+const CONTROL_ACTIONS = { zoomIn, zoomOut, zoomReset, exportAnalysis };
+
+const controls = document.querySelector('.controls');
+if (controls) {
+	controls.addEventListener('click', event => {
+		const button = event.target.closest('button[data-control]');
+		if (button) CONTROL_ACTIONS[button.dataset.control]();
+	});
+}
+
+// ── History ──────────────────────────────────
+function renderHistoryNav(history) {
+	const nav = document.getElementById('historyNav');
+	if (!nav || !history) return;
+	const comparing = !!(currentData && currentData.comparison);
+	nav.innerHTML = '<button data-command="historyBack" title="Previous analysis"' + (history.index > 0 ? '' : ' disabled') + '>&#8592;</button>'
+		+ '<span class="history-position">' + (history.index + 1) + ' / ' + history.count + '</span>'
+		+ '<button data-command="historyForward" title="Next analysis"' + (history.index < history.count - 1 ? '' : ' disabled') + '>&#8594;</button>'
+		+ (comparing ? '' : '<button data-command="togglePin" class="' + (history.pinned ? 'active' : '') + '" title="Keep this analysis in the history">'
+			+ (history.pinned ? 'Pinned' : 'Pin') + '</button>')
+		+ '<button data-command="compare" title="Compare with another analysis of the same symbol"' + (history.comparable ? '' : ' disabled') + '>Compare&hellip;</button>';
+}
+
+// Header buttons are handled on the document, since real-time updates replace the header
+document.addEventListener('click', event => {
+	const button = event.target.closest('#historyNav button[data-command]');
+	if (button && !button.disabled) vscodeApi.postMessage({ command: button.dataset.command });
+});
+
+// ── Call Hierarchy Direction ─────────────────
+document.addEventListener('click', event => {
+	const button = event.target.closest('#directionToggle button[data-direction]');
+	if (button) vscodeApi.postMessage({ command: 'setCallDirection', direction: button.dataset.direction });
+});
+
+// ── Refactor Preview ─────────────────────────
+document.addEventListener('click', event => {
+	if (event.target.closest('#applyRefactor')) vscodeApi.postMessage({ command: 'applyRefactor' });
+});
+
+// ── Header ───────────────────────────────────
+function replaceHeader(html, history) {
+	const header = document.querySelector('.header');
+	if (!header) return;
+	header.outerHTML = html;
+	renderHistoryNav(history);
+}
+
 // ── Message handler for real-time updates ────
 window.addEventListener('message', event => {
 	const msg = event.data;
 	if (msg.command === 'updateGraph' && msg.data) {
-		renderGraph(msg.data);
+		currentData = msg.data;
+		if (msg.header) replaceHeader(msg.header, msg.history);
+		renderGraph(msg.data, true);
+	} else if (msg.command === 'updateHistory') {
+		renderHistoryNav(msg.history);
+	} else if (msg.command === 'snapshot') {
+		const svgText = snapshotSvg();
+		(msg.format === 'png' && svgText ? snapshotPng(svgText) : Promise.resolve(svgText))
+			.catch(() => undefined)
+			.then(data => vscodeApi.postMessage({ command: 'snapshot', requestId: msg.requestId, data }));
 	}
 });
 
 // ── Initial Render ───────────────────────────
 const initialData = JSON.parse('${graphData}');
 if (initialData) {
+	currentData = initialData;
+	renderHistoryNav(${historyData});
 	// Wait for DOM
 	requestAnimationFrame(() => renderGraph(initialData));
 }
@@ -740,5 +2588,6 @@ if (initialData) {
 
 export function deactivate() {
 	if (debounceTimer) { clearTimeout(debounceTimer); }
+	cancelRealTimeUpdate();
 	if (impactPanel) { impactPanel.dispose(); }
 }
@@ -0,0 +1,53 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ImpactAnalysis } from './types';
+import { getDocumentSymbols } from './symbols';
+import { parseModule } from './moduleParser';
+import { SOURCE_EXTENSIONS } from './moduleResolver';
+import { buildImpactAnalysis } from './impactAnalysis';
+import { mergeImpactAnalyses } from './analysisMerge';
+import { DependencyIndex, findReferences } from './dependencyIndex';
+
+// ─── File Exports ────────────────────────────────────────────
+
+/**
+ * Top-level symbols other files can depend on. JavaScript and TypeScript symbols count when an
+ * `export` statement names them; in other languages, e.g. Python, every top-level symbol does.
+ */
+export async function findExportedSymbols(document: vscode.TextDocument): Promise<vscode.DocumentSymbol[]> {
+	const symbols = await getDocumentSymbols(document.uri, new Map());
+	if (!SOURCE_EXTENSIONS.includes(path.extname(document.uri.fsPath).toLowerCase())) { return symbols; }
+
+	// Re-exports (`export { x } from './y'`) are declared elsewhere and have no symbol here
+	const exported = new Set(parseModule(document.getText()).exports.map(e => e.local));
+	return symbols.filter(symbol => exported.has(symbol.name));
+}
+
+/**
+ * Runs the reference impact analysis for every export and merges the results into a single
+ * graph: the file is the root and the exports are its sub-roots. Exports without dependents
+ * stay in the graph, as they are what can be moved or deleted without further work.
+ */
+export async function analyzeFileExports(
+	document: vscode.TextDocument,
+	exports: vscode.DocumentSymbol[],
+	index: DependencyIndex | undefined,
+	progress: vscode.Progress<{ message?: string; increment?: number }>
+): Promise<ImpactAnalysis | undefined> {
+	const analyses: ImpactAnalysis[] = [];
+
+	for (const symbol of exports) {
+		progress.report({ message: symbol.name, increment: 100 / exports.length });
+
+		const position = symbol.selectionRange.start;
+		const locations = await findReferences(document.uri, position, symbol.name, index, position);
+		// Languages without a reference provider have nothing to ripple through
+		if (locations.length === 0) { continue; }
+
+		analyses.push(await buildImpactAnalysis(symbol.name, document.uri, locations, { position, index }));
+	}
+
+	return analyses.length > 0
+		? mergeImpactAnalyses(vscode.workspace.asRelativePath(document.uri), document.uri.fsPath, analyses)
+		: undefined;
+}
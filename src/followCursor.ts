@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import { getDocumentSymbols } from './symbols';
+
+// ─── Follow Cursor ───────────────────────────────────────────
+
+export interface FollowCursorSettings {
+	enabled: boolean;
+	/** Milliseconds to wait after the caret moves or the text changes before re-analyzing */
+	debounce: number;
+}
+
+export function getFollowCursorSettings(): FollowCursorSettings {
+	const config = vscode.workspace.getConfiguration('dependencyImpactVisualizer.followCursor');
+	return {
+		enabled: config.get<boolean>('enabled', false),
+		debounce: Math.max(config.get<number>('debounce', 500), 0)
+	};
+}
+
+/**
+ * Whether the caret is on something worth analyzing: a word the definition provider resolves.
+ * Keywords, literals and words in comments have no definition.
+ */
+export async function isOnSymbol(document: vscode.TextDocument, position: vscode.Position): Promise<boolean> {
+	if (!document.getWordRangeAtPosition(position)) { return false; }
+	const definitions = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+		'vscode.executeDefinitionProvider',
+		document.uri,
+		position
+	);
+	return (definitions?.length ?? 0) > 0;
+}
+
+/** The symbol a locked panel stays on, wherever the cursor goes and whatever is edited */
+export interface LockedSymbol {
+	name: string;
+	/** File of the declaration */
+	uri: vscode.Uri;
+	/** 0-based line the declaration was last seen on; edits above it move it */
+	line: number;
+}
+
+/** Locks onto the declaration of the symbol at `position`, or the position itself without one */
+export async function lockSymbol(uri: vscode.Uri, position: vscode.Position, name: string): Promise<LockedSymbol> {
+	const definitions = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+		'vscode.executeDefinitionProvider',
+		uri,
+		position
+	);
+	const definition = definitions?.[0];
+	if (!definition) { return { name, uri, line: position.line }; }
+	return 'targetUri' in definition
+		? { name, uri: definition.targetUri, line: (definition.targetSelectionRange ?? definition.targetRange).start.line }
+		: { name, uri: definition.uri, line: definition.range.start.line };
+}
+
+/**
+ * Finds the locked declaration again among its file's symbols, preferring the one nearest to where
+ * it was last seen. Undefined once it has been renamed or deleted.
+ */
+export async function locateLockedSymbol(locked: LockedSymbol): Promise<vscode.Position | undefined> {
+	const matches: vscode.DocumentSymbol[] = [];
+	const collect = (symbols: vscode.DocumentSymbol[]) => {
+		for (const symbol of symbols) {
+			if (symbol.name === locked.name) { matches.push(symbol); }
+			collect(symbol.children ?? []);
+		}
+	};
+	collect(await getDocumentSymbols(locked.uri, new Map()));
+
+	const distance = (symbol: vscode.DocumentSymbol) => Math.abs(symbol.selectionRange.start.line - locked.line);
+	return matches.sort((a, b) => distance(a) - distance(b))[0]?.selectionRange.start;
+}
@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import { API, GitExtension, Repository } from './typings/git';
+import { ImpactAnalysis } from './types';
+import { DocumentSymbolCache, getDocumentSymbols } from './symbols';
+import { parseChangedLines } from './diffParser';
+import { buildImpactAnalysis } from './impactAnalysis';
+import { mergeImpactAnalyses } from './analysisMerge';
+
+// ─── Git Change Impact ───────────────────────────────────────
+
+// Values of the git extension's `Status` and `RefType` const enums (not available at runtime)
+const DELETED_STATUSES = new Set([2 /* INDEX_DELETED */, 6 /* DELETED */]);
+const STATUS_UNTRACKED = 7;
+const REF_TYPE_HEAD = 0;
+const REF_TYPE_REMOTE_HEAD = 1;
+
+export interface DiffBase {
+	label: string;
+	/** Ref to diff the working tree against; undefined means HEAD (uncommitted changes) */
+	ref?: string;
+}
+
+export interface ChangedSymbol {
+	uri: vscode.Uri;
+	symbol: vscode.DocumentSymbol;
+}
+
+export async function getGitApi(): Promise<API | undefined> {
+	const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+	if (!extension) { return undefined; }
+
+	const git = extension.isActive ? extension.exports : await extension.activate();
+	return git.enabled ? git.getAPI(1) : undefined;
+}
+
+/** Repository of the active editor, or the first one in the workspace */
+export function getActiveRepository(git: API): Repository | undefined {
+	const activeUri = vscode.window.activeTextEditor?.document.uri;
+	return (activeUri && git.getRepository(activeUri)) || git.repositories[0];
+}
+
+export async function pickDiffBase(repo: Repository): Promise<DiffBase | undefined> {
+	const current = repo.state.HEAD?.name;
+	const branches = repo.state.refs
+		.filter(ref => (ref.type === REF_TYPE_HEAD || ref.type === REF_TYPE_REMOTE_HEAD) && ref.name && ref.name !== current)
+		.map(ref => ({
+			label: ref.name!,
+			description: ref.type === REF_TYPE_REMOTE_HEAD ? 'remote branch' : 'branch',
+			base: { label: `Changes vs ${ref.name}`, ref: ref.name } as DiffBase
+		}));
+
+	const picked = await vscode.window.showQuickPick([
+		{ label: 'Working tree', description: 'uncommitted changes', base: { label: 'Uncommitted changes' } as DiffBase },
+		...branches
+	], { placeHolder: 'Compare the working tree against…' });
+
+	return picked?.base;
+}
+
+/** Top-level symbols whose body or signature overlaps a changed line */
+export async function findChangedSymbols(repo: Repository, base: DiffBase): Promise<ChangedSymbol[]> {
+	// Against HEAD rather than the index, so staged changes count as uncommitted too
+	const ref = base.ref ?? 'HEAD';
+	const changes = await repo.diffWith(ref);
+	const symbolCache: DocumentSymbolCache = new Map();
+	const changed: ChangedSymbol[] = [];
+
+	for (const change of changes) {
+		if (DELETED_STATUSES.has(change.status)) { continue; }
+
+		const lines = parseChangedLines(await repo.diffWith(ref, change.uri.fsPath));
+		if (lines.length === 0) { continue; }
+
+		const symbols = await getDocumentSymbols(change.uri, symbolCache);
+		for (const symbol of symbols) {
+			if (lines.some(line => symbol.range.start.line <= line && line <= symbol.range.end.line)) {
+				changed.push({ uri: change.uri, symbol });
+			}
+		}
+	}
+
+	// Untracked files are in no diff; everything they declare is new
+	const diffed = new Set(changes.map(change => change.uri.fsPath));
+	for (const uri of untrackedFiles(repo)) {
+		if (diffed.has(uri.fsPath)) { continue; }
+		for (const symbol of await getDocumentSymbols(uri, symbolCache)) {
+			changed.push({ uri, symbol });
+		}
+	}
+
+	return changed;
+}
+
+function untrackedFiles(repo: Repository): vscode.Uri[] {
+	const files = new Map<string, vscode.Uri>();
+	for (const change of [...repo.state.workingTreeChanges, ...repo.state.untrackedChanges ?? []]) {
+		if (change.status === STATUS_UNTRACKED) { files.set(change.uri.fsPath, change.uri); }
+	}
+	return [...files.values()];
+}
+
+/**
+ * Runs the reference impact analysis for every changed symbol and merges the results
+ * into a single graph whose sub-roots are the changed symbols.
+ */
+export async function analyzeChangedSymbols(
+	changed: ChangedSymbol[],
+	base: DiffBase,
+	repo: Repository,
+	progress: vscode.Progress<{ message?: string; increment?: number }>
+): Promise<ImpactAnalysis | undefined> {
+	const analyses: ImpactAnalysis[] = [];
+
+	for (const { uri, symbol } of changed) {
+		progress.report({ message: symbol.name, increment: 100 / changed.length });
+
+		const position = symbol.selectionRange.start;
+		const locations = await vscode.commands.executeCommand<vscode.Location[]>(
+			'vscode.executeReferenceProvider',
+			uri,
+			position
+		);
+		// Languages without a reference provider (JSON, Markdown, ...) have nothing to ripple through
+		if (!locations || locations.length === 0) { continue; }
+
+		analyses.push(await buildImpactAnalysis(symbol.name, uri, locations, { position }));
+	}
+
+	return analyses.length > 0 ? mergeImpactAnalyses(base.label, repo.rootUri.fsPath, analyses) : undefined;
+}
@@ -0,0 +1,148 @@
+// ─── Graph Algorithms ────────────────────────────────────────
+
+export interface GraphEdge {
+	source: string;
+	target: string;
+}
+
+/** A strongly connected component that contains at least one cycle */
+export interface CyclicComponent {
+	nodes: string[];
+	/** Shortest cycles that together pass through every member; `[a, b, c]` stands for a → b → c → a */
+	cycles: string[][];
+}
+
+/**
+ * Tarjan's strongly connected components, in reverse topological order. Iterative, so long
+ * import chains cannot overflow the stack. Edges to unknown nodes are ignored.
+ */
+export function stronglyConnectedComponents(nodes: string[], edges: GraphEdge[]): string[][] {
+	const successors = buildAdjacency(nodes, edges);
+	const index = new Map<string, number>();
+	const lowLink = new Map<string, number>();
+	const stack: string[] = [];
+	const onStack = new Set<string>();
+	const components: string[][] = [];
+
+	const visit = (node: string) => {
+		index.set(node, index.size);
+		lowLink.set(node, index.get(node)!);
+		stack.push(node);
+		onStack.add(node);
+	};
+
+	for (const start of nodes) {
+		if (index.has(start)) { continue; }
+
+		visit(start);
+		const work = [{ node: start, next: 0 }];
+
+		while (work.length > 0) {
+			const frame = work[work.length - 1];
+			const next = successors.get(frame.node)!;
+
+			if (frame.next < next.length) {
+				const successor = next[frame.next++];
+				if (!index.has(successor)) {
+					visit(successor);
+					work.push({ node: successor, next: 0 });
+				} else if (onStack.has(successor)) {
+					lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, index.get(successor)!));
+				}
+				continue;
+			}
+
+			work.pop();
+			if (work.length > 0) {
+				const parent = work[work.length - 1].node;
+				lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.node)!));
+			}
+
+			if (lowLink.get(frame.node) === index.get(frame.node)) {
+				const component: string[] = [];
+				let member: string;
+				do {
+					member = stack.pop()!;
+					onStack.delete(member);
+					component.push(member);
+				} while (member !== frame.node);
+				components.push(component);
+			}
+		}
+	}
+
+	return components;
+}
+
+/** Every component with a cycle (several members, or one member with an edge to itself) and its cycles */
+export function findCyclicComponents(nodes: string[], edges: GraphEdge[]): CyclicComponent[] {
+	const successors = buildAdjacency(nodes, edges);
+	const order = new Map(nodes.map((node, i) => [node, i]));
+	const result: CyclicComponent[] = [];
+
+	for (const component of stronglyConnectedComponents(nodes, edges)) {
+		const [only] = component;
+		if (component.length === 1 && !successors.get(only)!.includes(only)) { continue; }
+
+		// One search per member not yet on a reported cycle keeps large components near-linear
+		const members = new Set(component);
+		const covered = new Set<string>();
+		const cycles: string[][] = [];
+		for (const member of component) {
+			if (covered.has(member)) { continue; }
+			const cycle = rotateToFirst(shortestCycleThrough(member, members, successors), order);
+			cycle.forEach(node => covered.add(node));
+			cycles.push(cycle);
+		}
+
+		result.push({
+			nodes: component.sort((a, b) => order.get(a)! - order.get(b)!),
+			cycles: cycles.sort((a, b) => a.length - b.length || order.get(a[0])! - order.get(b[0])!)
+		});
+	}
+
+	return result;
+}
+
+function buildAdjacency(nodes: string[], edges: GraphEdge[]): Map<string, string[]> {
+	const successors = new Map(nodes.map(node => [node, [] as string[]]));
+	for (const { source, target } of edges) {
+		if (successors.has(target)) {
+			successors.get(source)?.push(target);
+		}
+	}
+	return successors;
+}
+
+/** Breadth-first search from `start` back to itself, staying inside its component */
+function shortestCycleThrough(start: string, members: Set<string>, successors: Map<string, string[]>): string[] {
+	const parent = new Map<string, string>();
+	const queue = [start];
+
+	for (let i = 0; i < queue.length; i++) {
+		const node = queue[i];
+		for (const successor of successors.get(node)!) {
+			if (successor === start) {
+				const path = [node];
+				while (path[path.length - 1] !== start) { path.push(parent.get(path[path.length - 1])!); }
+				return path.reverse();
+			}
+			if (members.has(successor) && !parent.has(successor) && successor !== start) {
+				parent.set(successor, node);
+				queue.push(successor);
+			}
+		}
+	}
+
+	// Unreachable for members of a cyclic component
+	return [start];
+}
+
+/** Starts the cycle at its earliest node, so it reads the same whichever member found it */
+function rotateToFirst(cycle: string[], order: Map<string, number>): string[] {
+	let first = 0;
+	cycle.forEach((node, i) => {
+		if (order.get(node)! < order.get(cycle[first])!) { first = i; }
+	});
+	return [...cycle.slice(first), ...cycle.slice(0, first)];
+}
@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import { ImpactAnalysis } from './types';
+import {
+	addReferencingFiles,
+	addRootKey,
+	addRootNode,
+	createImpactGraph,
+	expandTransitiveImpact,
+	toImpactAnalysis
+} from './impactEngine';
+import { createEditorReferenceSource } from './editorReferences';
+import { addTypeHierarchy } from './typeHierarchy';
+import { DependencyIndex } from './dependencyIndex';
+
+// ─── Reference Impact Analysis ───────────────────────────────
+
+export interface ImpactOptions {
+	/** Position of the analyzed symbol; enables type hierarchy edges for classes and interfaces */
+	position?: vscode.Position;
+	maxDepth?: number;
+	/** Answers reference lookups for exported symbols without the language server when fresh */
+	index?: DependencyIndex;
+	/** Stops following further hops once cancelled; the partial result is only good for discarding */
+	token?: vscode.CancellationToken;
+}
+
+export async function buildImpactAnalysis(
+	symbol: string,
+	sourceUri: vscode.Uri,
+	locations: vscode.Location[],
+	options: ImpactOptions = {}
+): Promise<ImpactAnalysis> {
+	const maxDepth = options.maxDepth ?? getMaxDepth();
+	const graph = createImpactGraph();
+	const source = createEditorReferenceSource(options.index, options.token);
+	const rootNode = addRootNode(graph, source, symbol, sourceUri.fsPath, 0, locations.length);
+
+	// The analyzed symbol's own declaration shows up among its references: it is the root,
+	// so references inside it (recursion) are not repeated as nodes and it is never expanded again
+	for (const loc of locations) {
+		const enclosing = await source.findEnclosing(loc);
+		if (enclosing && enclosing.declaration.symbol.selectionRange.contains(loc.range.start)) {
+			addRootKey(graph, enclosing.key);
+			rootNode.line = enclosing.line + 1;
+		}
+	}
+
+	const frontier = await addReferencingFiles(graph, source, sourceUri.fsPath, locations);
+
+	// Subtypes and implementations of a class or interface are impacted even without a plain reference
+	if (options.position) {
+		frontier.push(...await addTypeHierarchy(graph, source, sourceUri, options.position, maxDepth));
+	}
+
+	const reachedDepth = await expandTransitiveImpact(graph, source, frontier, maxDepth);
+	return toImpactAnalysis(graph, symbol, rootNode.fileName, locations.length, reachedDepth);
+}
+
+export function getMaxDepth(): number {
+	const configured = vscode.workspace.getConfiguration('dependencyImpactVisualizer').get<number>('maxDepth', 2);
+	return Math.min(Math.max(Math.floor(configured), 1), 5);
+}
@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import { getDocumentSymbols } from './symbols';
+import { DependencyIndex, findReferences } from './dependencyIndex';
+
+// ─── Impact CodeLens ─────────────────────────────────────────
+
+const LENS_KINDS = new Set([vscode.SymbolKind.Function, vscode.SymbolKind.Method, vscode.SymbolKind.Class]);
+
+class ImpactCodeLens extends vscode.CodeLens {
+	constructor(readonly uri: vscode.Uri, readonly symbol: vscode.DocumentSymbol) {
+		super(symbol.selectionRange);
+	}
+}
+
+/**
+ * "N dependents across M files" above every function, method and class. References are only
+ * looked up when a lens scrolls into view; clicking it runs the impact analysis for the symbol.
+ */
+export class ImpactCodeLensProvider implements vscode.CodeLensProvider<ImpactCodeLens> {
+	private readonly changeEmitter = new vscode.EventEmitter<void>();
+	readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+	constructor(private readonly index: DependencyIndex | undefined) {}
+
+	refresh() {
+		this.changeEmitter.fire();
+	}
+
+	async provideCodeLenses(document: vscode.TextDocument): Promise<ImpactCodeLens[]> {
+		if (!vscode.workspace.getConfiguration('dependencyImpactVisualizer').get<boolean>('codeLens.enabled', true)) {
+			return [];
+		}
+
+		const lenses: ImpactCodeLens[] = [];
+		const collect = (symbols: vscode.DocumentSymbol[]) => {
+			for (const symbol of symbols) {
+				if (LENS_KINDS.has(symbol.kind)) {
+					lenses.push(new ImpactCodeLens(document.uri, symbol));
+				}
+				// Methods live in classes; locals in functions are not worth a lens
+				if (symbol.kind === vscode.SymbolKind.Class) {
+					collect(symbol.children ?? []);
+				}
+			}
+		};
+		collect(await getDocumentSymbols(document.uri, new Map()));
+		return lenses;
+	}
+
+	async resolveCodeLens(lens: ImpactCodeLens): Promise<ImpactCodeLens> {
+		const { uri, symbol } = lens;
+		const position = symbol.selectionRange.start;
+		const locations = await findReferences(uri, position, symbol.name, this.index, position);
+
+		// The declaration is among the references but depends on nothing
+		const dependents = locations.filter(loc =>
+			loc.uri.toString() !== uri.toString() || !symbol.selectionRange.contains(loc.range.start));
+		const files = new Set(dependents.map(loc => loc.uri.toString())).size;
+
+		lens.command = {
+			title: `${dependents.length} dependent${dependents.length !== 1 ? 's' : ''} across ${files} file${files !== 1 ? 's' : ''}`,
+			tooltip: `Analyze the impact of ${symbol.name}`,
+			command: 'dependency-impact-visualizer.analyzeSymbol',
+			arguments: [uri, position]
+		};
+		return lens;
+	}
+}
@@ -0,0 +1,338 @@
+import { DependencyLink, DependencyNode, ImpactAnalysis } from './types';
+import { classifyFile, classifyLineContext } from './classification';
+
+// ─── Impact Graph Engine ─────────────────────────────────────
+
+/**
+ * Function, class or other declaration enclosing a reference. `D` is whatever the language
+ * service behind the analysis needs to look up the declaration's own references.
+ */
+export interface EnclosingDeclaration<D> {
+	/** Identifies the declaration across lookups */
+	key: string;
+	/** Display name such as `UserService.save()` */
+	name: string;
+	filePath: string;
+	/** 0-based line of the declared name */
+	line: number;
+	type: DependencyNode['type'];
+	declaration: D;
+}
+
+/**
+ * What an impact graph is built from: the editor's reference and document symbol providers, or
+ * the TypeScript language service of the CLI. `L` is a reference location.
+ */
+export interface ReferenceSource<L, D> {
+	filePath(location: L): string;
+	/** 0-based */
+	line(location: L): number;
+	/** Innermost function, class or top-level declaration containing the location (locals are skipped) */
+	findEnclosing(location: L): Promise<EnclosingDeclaration<D> | undefined>;
+	findReferences(enclosing: EnclosingDeclaration<D>): Promise<L[]>;
+	/** Undefined when the file cannot be read */
+	lineText(location: L): Promise<string | undefined>;
+	/** Workspace-relative label of a file */
+	relativePath(filePath: string): string;
+	/** Stops following further hops; the partial result is only good for discarding */
+	isCancelled(): boolean;
+}
+
+/** Graph under construction plus the bookkeeping needed to deduplicate nodes across hops */
+export interface ImpactGraph {
+	nodes: DependencyNode[];
+	links: DependencyLink[];
+	/** Nodes keyed by `EnclosingDeclaration.key`, so a symbol reached from several places appears once */
+	symbolNodes: Map<string, DependencyNode>;
+	linkKeys: Set<string>;
+	/** Symbols whose references have already been followed */
+	expanded: Set<string>;
+	/** Keys of the analyzed symbol's own declaration, represented by the root node */
+	rootKeys: Set<string>;
+	/** How often each node id has been handed out, see `stableNodeId` */
+	idCounts: Map<string, number>;
+}
+
+export function createImpactGraph(): ImpactGraph {
+	return {
+		nodes: [],
+		links: [],
+		symbolNodes: new Map(),
+		linkKeys: new Set(),
+		expanded: new Set(),
+		rootKeys: new Set(),
+		idCounts: new Map()
+	};
+}
+
+/**
+ * Node ids built from the file path and the symbol name or line rather than from visit order, so
+ * re-running an analysis while typing yields the same ids and the panel can update the graph in
+ * place. Overloads and repeated lines get a `#2`, `#3`… suffix.
+ */
+export function stableNodeId(graph: { idCounts: Map<string, number> }, base: string): string {
+	const count = (graph.idCounts.get(base) ?? 0) + 1;
+	graph.idCounts.set(base, count);
+	return count === 1 ? base : `${base}#${count}`;
+}
+
+export interface HopEntry<L> {
+	/** Graph node the reference is attached to */
+	nodeId: string;
+	location: L;
+}
+
+/** The analyzed symbol; `line` is 1-based, 0 while its declaration is unknown */
+export function addRootNode(
+	graph: ImpactGraph,
+	source: ReferenceSource<unknown, unknown>,
+	name: string,
+	filePath: string,
+	line: number,
+	references: number
+): DependencyNode {
+	const node: DependencyNode = {
+		id: 'root',
+		name,
+		fileName: source.relativePath(filePath),
+		uri: filePath,
+		line,
+		type: 'symbol',
+		references,
+		isRoot: true,
+		depth: 0
+	};
+	graph.nodes.push(node);
+	return node;
+}
+
+/** Marks a declaration as the analyzed symbol's own: references inside it are not repeated as nodes and it is never expanded */
+export function addRootKey(graph: ImpactGraph, key: string) {
+	graph.rootKeys.add(key);
+	graph.expanded.add(key);
+}
+
+/**
+ * First hop of the analysis: a node for each file holding references, linked from the root,
+ * then one node per declaration enclosing a reference. Returns every new node with the
+ * reference it was reached by, so `expandTransitiveImpact` can continue from there.
+ */
+export async function addReferencingFiles<L, D>(
+	graph: ImpactGraph,
+	source: ReferenceSource<L, D>,
+	sourceFilePath: string,
+	locations: L[]
+): Promise<HopEntry<L>[]> {
+	const fileGroups = new Map<string, L[]>();
+	for (const loc of locations) {
+		const key = source.filePath(loc);
+		if (!fileGroups.has(key)) { fileGroups.set(key, []); }
+		fileGroups.get(key)!.push(loc);
+	}
+
+	const frontier: HopEntry<L>[] = [];
+	for (const [filePath, locs] of fileGroups) {
+		const fileName = source.relativePath(filePath);
+		const fileType = classifyFile(baseName(filePath));
+		const fileNodeId = stableNodeId(graph, `file:${filePath}`);
+
+		graph.nodes.push({
+			id: fileNodeId,
+			name: fileName,
+			fileName,
+			uri: filePath,
+			line: source.line(locs[0]) + 1,
+			type: fileType,
+			references: locs.length,
+			isRoot: false,
+			depth: 1
+		});
+
+		const linkType = fileType === 'test' ? 'tests'
+			: filePath === sourceFilePath ? 'defines'
+			: 'uses';
+		graph.links.push({ source: 'root', target: fileNodeId, type: linkType });
+
+		for (const loc of locs) {
+			const enclosing = await source.findEnclosing(loc);
+			if (enclosing && graph.rootKeys.has(enclosing.key)) { continue; }
+
+			if (enclosing) {
+				const { node, created } = getOrAddSymbolNode(graph, source, enclosing, 1);
+				addReferenceLine(node, source.line(loc) + 1);
+				if (!created) {
+					node.references++;
+					continue;
+				}
+				addLink(graph, fileNodeId, node.id, 'uses');
+				frontier.push({ nodeId: node.id, location: loc });
+			} else {
+				const node = await addLineNode(graph, source, loc, 1);
+				addLink(graph, fileNodeId, node.id, 'uses');
+				frontier.push({ nodeId: node.id, location: loc });
+			}
+		}
+	}
+	return frontier;
+}
+
+/**
+ * Walks the reference graph outward from the first-hop references: each reference's
+ * enclosing function or class is looked up, and its own references form the next hop.
+ * Symbols are expanded at most once, so recursion and reference cycles terminate.
+ * Returns the deepest hop holding an impacted node; a file that merely declares the symbol is no hop.
+ */
+export async function expandTransitiveImpact<L, D>(
+	graph: ImpactGraph,
+	source: ReferenceSource<L, D>,
+	firstHop: HopEntry<L>[],
+	maxDepth: number
+): Promise<number> {
+	let frontier = firstHop;
+
+	for (let depth = 2; depth <= maxDepth && frontier.length > 0; depth++) {
+		const next: HopEntry<L>[] = [];
+
+		for (const { nodeId, location } of frontier) {
+			if (source.isCancelled()) { return deepestHop(graph); }
+			const enclosing = await source.findEnclosing(location);
+			if (!enclosing) { continue; }
+
+			if (graph.expanded.has(enclosing.key)) { continue; }
+			graph.expanded.add(enclosing.key);
+
+			for (const ref of await source.findReferences(enclosing)) {
+				const caller = await source.findEnclosing(ref);
+				if (!caller || caller.key === enclosing.key) { continue; }
+
+				// A caller that is the analyzed symbol itself closes a cycle back to the root
+				if (graph.rootKeys.has(caller.key)) {
+					addLink(graph, nodeId, 'root', 'uses');
+					continue;
+				}
+
+				const { node: callerNode, created } = getOrAddSymbolNode(graph, source, caller, depth);
+				addReferenceLine(callerNode, source.line(ref) + 1);
+				if (created) {
+					next.push({ nodeId: callerNode.id, location: ref });
+				} else {
+					callerNode.references++;
+				}
+
+				addLink(graph, nodeId, callerNode.id, callerNode.type === 'test' ? 'tests' : 'uses');
+			}
+		}
+
+		frontier = next;
+	}
+
+	return deepestHop(graph);
+}
+
+export function toImpactAnalysis(
+	graph: ImpactGraph,
+	symbol: string,
+	sourceFile: string,
+	totalReferences: number,
+	maxDepth: number
+): ImpactAnalysis {
+	return {
+		symbol,
+		sourceFile,
+		affectedFiles: countAffectedFiles(graph.nodes, graph.links),
+		totalReferences,
+		maxDepth,
+		nodes: graph.nodes,
+		links: graph.links
+	};
+}
+
+/**
+ * Nodes that only stand for an analyzed symbol's own declaration: a file linked by `defines`
+ * that holds no reference besides it. A change to the symbol does not impact them.
+ */
+export function definitionOnlyNodes(links: DependencyLink[]): Set<string> {
+	const sources = new Set(links.map(l => l.source));
+	return new Set(links.filter(l => l.type === 'defines' && !sources.has(l.target)).map(l => l.target));
+}
+
+/** Files holding impacted nodes, leaving out the analyzed symbols and files that merely declare them */
+export function countAffectedFiles(nodes: DependencyNode[], links: DependencyLink[]): number {
+	const definitionOnly = definitionOnlyNodes(links);
+	return new Set(nodes.filter(n => n.depth > 0 && !definitionOnly.has(n.id)).map(n => n.uri)).size;
+}
+
+/**
+ * Returns the node for an enclosing declaration, creating it on first sight.
+ * `created` tells callers whether the symbol still needs edges and expansion.
+ */
+export function getOrAddSymbolNode<D>(
+	graph: ImpactGraph,
+	source: ReferenceSource<unknown, D>,
+	enclosing: EnclosingDeclaration<D>,
+	depth: number
+): { node: DependencyNode; created: boolean } {
+	const existing = graph.symbolNodes.get(enclosing.key);
+	if (existing) { return { node: existing, created: false }; }
+
+	const node: DependencyNode = {
+		id: stableNodeId(graph, `sym:${enclosing.filePath}#${enclosing.name}`),
+		name: enclosing.name,
+		fileName: source.relativePath(enclosing.filePath),
+		uri: enclosing.filePath,
+		line: enclosing.line + 1,
+		type: classifyFile(baseName(enclosing.filePath)) === 'test' ? 'test' : enclosing.type,
+		references: 1,
+		isRoot: false,
+		depth
+	};
+	graph.symbolNodes.set(enclosing.key, node);
+	graph.nodes.push(node);
+	return { node, created: true };
+}
+
+/** Fallback for references outside any symbol (imports, top-level statements) */
+async function addLineNode<L>(graph: ImpactGraph, source: ReferenceSource<L, unknown>, loc: L, depth: number): Promise<DependencyNode> {
+	const filePath = source.filePath(loc);
+	const lineNum = source.line(loc) + 1;
+	const lineText = await source.lineText(loc);
+
+	const node: DependencyNode = {
+		id: stableNodeId(graph, `ref:${filePath}:${lineNum}`),
+		name: `L${lineNum}`,
+		fileName: source.relativePath(filePath),
+		uri: filePath,
+		line: lineNum,
+		type: lineText === undefined ? 'function' : classifyLineContext(lineText.trim(), baseName(filePath)),
+		references: 1,
+		isRoot: false,
+		depth
+	};
+	graph.nodes.push(node);
+	return node;
+}
+
+function deepestHop(graph: ImpactGraph): number {
+	const definitionOnly = definitionOnlyNodes(graph.links);
+	return graph.nodes.reduce((deepest, n) => definitionOnly.has(n.id) ? deepest : Math.max(deepest, n.depth), 0);
+}
+
+function addReferenceLine(node: DependencyNode, line: number) {
+	node.referenceLines ??= [];
+	if (!node.referenceLines.includes(line)) {
+		node.referenceLines.push(line);
+		node.referenceLines.sort((a, b) => a - b);
+	}
+}
+
+export function addLink(graph: ImpactGraph, source: string, target: string, type: DependencyLink['type'], line?: number) {
+	const linkKey = `${source}->${target}`;
+	if (!graph.linkKeys.has(linkKey)) {
+		graph.linkKeys.add(linkKey);
+		graph.links.push(line === undefined ? { source, target, type } : { source, target, type, line });
+	}
+}
+
+function baseName(filePath: string): string {
+	return filePath.split(/[\\/]/).pop() || 'unknown';
+}
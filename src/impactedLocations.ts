@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import { DependencyLink, DependencyNode, ImpactAnalysis } from './types';
+
+// ─── Impacted Locations ──────────────────────────────────────
+
+const REVIEWED_KEY = 'dependencyImpactVisualizer.reviewed';
+/** Analyses whose review progress is remembered; the oldest is forgotten first */
+const MAX_REVIEWED_ANALYSES = 50;
+
+const TYPE_ICONS: Record<DependencyNode['type'], string> = {
+	symbol: 'symbol-key',
+	function: 'symbol-function',
+	class: 'symbol-class',
+	variable: 'symbol-variable',
+	test: 'beaker',
+	component: 'symbol-misc',
+	import: 'symbol-namespace',
+	type: 'symbol-interface',
+	possible: 'search'
+};
+
+type LocationItem =
+	| { kind: 'file'; uri: vscode.Uri; nodes: DependencyNode[] }
+	| { kind: 'symbol'; node: DependencyNode; lines: number[] }
+	/** A reference site: a line inside a symbol, or a line node outside any symbol */
+	| { kind: 'reference'; uri: vscode.Uri; line: number; parent?: DependencyNode };
+
+/**
+ * The current analysis as a work list: impacted files, the symbols in them and the lines where
+ * those symbols reference the analyzed code. Each location can be checked off as reviewed; the
+ * checks are remembered per analyzed symbol, so re-running the analysis keeps them.
+ */
+export class ImpactedLocationsProvider implements vscode.TreeDataProvider<LocationItem> {
+	private readonly changeEmitter = new vscode.EventEmitter<void>();
+	readonly onDidChangeTreeData = this.changeEmitter.event;
+	private files: Extract<LocationItem, { kind: 'file' }>[] = [];
+	private links: DependencyLink[] = [];
+	private analysisKey: string | undefined;
+	private reviewed = new Set<string>();
+	private readonly lineTexts = new Map<string, Thenable<string[]>>();
+
+	constructor(private readonly state: vscode.Memento) {}
+
+	update(analysis: ImpactAnalysis) {
+		const root = analysis.nodes.find(n => n.isRoot);
+		this.analysisKey = `${root?.uri ?? ''}#${analysis.symbol}`;
+		this.reviewed = new Set(this.state.get<Record<string, string[]>>(REVIEWED_KEY, {})[this.analysisKey] ?? []);
+		this.links = analysis.links;
+		this.lineTexts.clear();
+
+		const byFile = new Map<string, DependencyNode[]>();
+		for (const node of analysis.nodes) {
+			// File nodes only group references in the graph; the file item plays that role here
+			if (node.isRoot || node.name === node.fileName) { continue; }
+			if (!byFile.has(node.uri)) { byFile.set(node.uri, []); }
+			byFile.get(node.uri)!.push(node);
+		}
+
+		this.files = [...byFile]
+			.map(([filePath, nodes]) => ({
+				kind: 'file' as const,
+				uri: vscode.Uri.file(filePath),
+				nodes: nodes.sort((a, b) => a.line - b.line)
+			}))
+			.sort((a, b) => vscode.workspace.asRelativePath(a.uri).localeCompare(vscode.workspace.asRelativePath(b.uri)));
+		this.changeEmitter.fire();
+	}
+
+	/** e.g. `3/7 reviewed`, counting the leaves of the tree */
+	get progress(): string | undefined {
+		const leaves = this.files.flatMap(file => this.leavesOf(file));
+		if (leaves.length === 0) { return undefined; }
+		return `${leaves.filter(leaf => this.reviewed.has(itemKey(leaf))).length}/${leaves.length} reviewed`;
+	}
+
+	/** Marks the items, and everything below them, as reviewed or not */
+	async setReviewed(items: readonly (readonly [LocationItem, vscode.TreeItemCheckboxState])[]) {
+		for (const [item, state] of items) {
+			for (const leaf of this.leavesOf(item)) {
+				if (state === vscode.TreeItemCheckboxState.Checked) {
+					this.reviewed.add(itemKey(leaf));
+				} else {
+					this.reviewed.delete(itemKey(leaf));
+				}
+			}
+		}
+		this.changeEmitter.fire();
+		await this.saveReviewed();
+	}
+
+	async getTreeItem(item: LocationItem): Promise<vscode.TreeItem> {
+		const leaves = this.leavesOf(item);
+		const checked = leaves.length > 0 && leaves.every(leaf => this.reviewed.has(itemKey(leaf)));
+		let treeItem: vscode.TreeItem;
+
+		if (item.kind === 'file') {
+			treeItem = new vscode.TreeItem(item.uri, vscode.TreeItemCollapsibleState.Expanded);
+			treeItem.description = `${leaves.length} location${leaves.length !== 1 ? 's' : ''}`;
+			treeItem.command = { command: 'vscode.open', title: 'Open', arguments: [item.uri] };
+		} else if (item.kind === 'symbol') {
+			const { node } = item;
+			treeItem = new vscode.TreeItem(node.name, item.lines.length > 0
+				? vscode.TreeItemCollapsibleState.Collapsed
+				: vscode.TreeItemCollapsibleState.None);
+			treeItem.description = `L${node.line} · ${node.depth} hop${node.depth !== 1 ? 's' : ''}`
+				+ (node.risk !== undefined ? ` · risk ${node.risk}` : '');
+			treeItem.iconPath = new vscode.ThemeIcon(TYPE_ICONS[node.type]);
+			treeItem.command = openAt(vscode.Uri.file(node.uri), node.line);
+		} else {
+			const text = (await this.readLines(item.uri))[item.line - 1]?.trim();
+			treeItem = new vscode.TreeItem(text || `Line ${item.line}`);
+			treeItem.description = `L${item.line}`;
+			treeItem.iconPath = new vscode.ThemeIcon('references');
+			treeItem.command = openAt(item.uri, item.line);
+		}
+
+		treeItem.checkboxState = checked ? vscode.TreeItemCheckboxState.Checked : vscode.TreeItemCheckboxState.Unchecked;
+		return treeItem;
+	}
+
+	getChildren(item?: LocationItem): LocationItem[] {
+		if (!item) { return this.files; }
+		if (item.kind === 'file') {
+			return item.nodes.map(node => /^L\d+$/.test(node.name)
+				? { kind: 'reference', uri: item.uri, line: node.line }
+				: { kind: 'symbol', node, lines: this.referenceLines(node) });
+		}
+		if (item.kind === 'symbol') {
+			const uri = vscode.Uri.file(item.node.uri);
+			return item.lines.map(line => ({ kind: 'reference', uri, line, parent: item.node }));
+		}
+		return [];
+	}
+
+	/**
+	 * Reference analyses record the lines on the node; call and import edges carry the line of
+	 * the call or import in their source node's file.
+	 */
+	private referenceLines(node: DependencyNode): number[] {
+		if (node.referenceLines) { return node.referenceLines; }
+		const lines = this.links.filter(l => l.source === node.id && l.line !== undefined).map(l => l.line!);
+		return [...new Set(lines)].sort((a, b) => a - b);
+	}
+
+	/** Items that carry review state of their own: reference sites, and symbols without any */
+	private leavesOf(item: LocationItem): LocationItem[] {
+		const children = this.getChildren(item);
+		return children.length === 0 ? [item] : children.flatMap(child => this.leavesOf(child));
+	}
+
+	private readLines(uri: vscode.Uri): Thenable<string[]> {
+		const key = uri.toString();
+		let lines = this.lineTexts.get(key);
+		if (!lines) {
+			lines = vscode.workspace.openTextDocument(uri).then(doc => doc.getText().split(/\r?\n/), () => []);
+			this.lineTexts.set(key, lines);
+		}
+		return lines;
+	}
+
+	private async saveReviewed() {
+		if (!this.analysisKey) { return; }
+		const all = { ...this.state.get<Record<string, string[]>>(REVIEWED_KEY, {}) };
+		delete all[this.analysisKey];
+		if (this.reviewed.size > 0) { all[this.analysisKey] = [...this.reviewed]; }
+
+		const keys = Object.keys(all);
+		keys.slice(0, Math.max(keys.length - MAX_REVIEWED_ANALYSES, 0)).forEach(key => delete all[key]);
+		await this.state.update(REVIEWED_KEY, all);
+	}
+}
+
+function itemKey(item: LocationItem): string {
+	switch (item.kind) {
+		case 'file': return item.uri.fsPath;
+		case 'symbol': return `${item.node.uri}#${item.node.name}`;
+		case 'reference': return `${item.uri.fsPath}:${item.line}${item.parent ? `#${item.parent.name}` : ''}`;
+	}
+}
+
+function openAt(uri: vscode.Uri, line: number): vscode.Command {
+	const position = new vscode.Position(Math.max(line - 1, 0), 0);
+	return { command: 'vscode.open', title: 'Open', arguments: [uri, { selection: new vscode.Range(position, position) }] };
+}
@@ -0,0 +1,181 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ImpactAnalysis } from './types';
+import { classifyFile } from './classification';
+import { TestBlock, findEnclosingTestBlocks } from './testBlocks';
+
+// ─── Impacted Tests ──────────────────────────────────────────
+
+export interface ImpactedTestFile {
+	uri: vscode.Uri;
+	/** Innermost test (or suite) around each impacted location, ordered by line */
+	cases: TestBlock[];
+}
+
+/** Test files among the analysis nodes, with the test cases that enclose each impacted location */
+export async function collectImpactedTests(analysis: ImpactAnalysis): Promise<ImpactedTestFile[]> {
+	const linesByFile = new Map<string, number[]>();
+	for (const node of analysis.nodes) {
+		if (node.isRoot || classifyFile(node.fileName) !== 'test') { continue; }
+		if (!linesByFile.has(node.uri)) { linesByFile.set(node.uri, []); }
+		linesByFile.get(node.uri)!.push(Math.max(node.line - 1, 0));
+	}
+
+	const files: ImpactedTestFile[] = [];
+	for (const [filePath, lines] of linesByFile) {
+		const uri = vscode.Uri.file(filePath);
+		const cases = new Map<number, TestBlock>();
+
+		try {
+			const doc = await vscode.workspace.openTextDocument(uri);
+			const text = doc.getText().split(/\r?\n/);
+			for (const line of lines) {
+				const blocks = findEnclosingTestBlocks(text, line);
+				const innermost = blocks[blocks.length - 1];
+				if (innermost) { cases.set(innermost.line, innermost); }
+			}
+		} catch { /* file no longer readable; list it without cases */ }
+
+		files.push({ uri, cases: [...cases.values()].sort((a, b) => a.line - b.line) });
+	}
+
+	return files.sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath));
+}
+
+// ─── Tree View ───────────────────────────────────────────────
+
+type ImpactedTestItem =
+	| { kind: 'file'; file: ImpactedTestFile }
+	| { kind: 'case'; file: ImpactedTestFile; testCase: TestBlock };
+
+export class ImpactedTestsProvider implements vscode.TreeDataProvider<ImpactedTestItem> {
+	private readonly changeEmitter = new vscode.EventEmitter<void>();
+	readonly onDidChangeTreeData = this.changeEmitter.event;
+	private files: ImpactedTestFile[] = [];
+
+	get impactedFiles(): ImpactedTestFile[] {
+		return this.files;
+	}
+
+	async update(analysis: ImpactAnalysis) {
+		this.files = await collectImpactedTests(analysis);
+		this.changeEmitter.fire();
+	}
+
+	getTreeItem(item: ImpactedTestItem): vscode.TreeItem {
+		if (item.kind === 'file') {
+			const treeItem = new vscode.TreeItem(
+				item.file.uri,
+				item.file.cases.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+			);
+			treeItem.description = `${item.file.cases.length} test${item.file.cases.length !== 1 ? 's' : ''}`;
+			treeItem.command = { command: 'vscode.open', title: 'Open', arguments: [item.file.uri] };
+			return treeItem;
+		}
+
+		const { testCase } = item;
+		const treeItem = new vscode.TreeItem(testCase.name);
+		treeItem.description = `${testCase.kind === 'suite' ? 'suite' : 'test'} · L${testCase.line + 1}`;
+		treeItem.iconPath = new vscode.ThemeIcon(testCase.kind === 'suite' ? 'symbol-namespace' : 'beaker');
+		treeItem.command = {
+			command: 'vscode.open',
+			title: 'Open',
+			arguments: [item.file.uri, { selection: new vscode.Range(testCase.line, 0, testCase.line, 0) }]
+		};
+		return treeItem;
+	}
+
+	getChildren(item?: ImpactedTestItem): ImpactedTestItem[] {
+		if (!item) { return this.files.map(file => ({ kind: 'file', file })); }
+		if (item.kind === 'file') {
+			return item.file.cases.map(testCase => ({ kind: 'case', file: item.file, testCase }));
+		}
+		return [];
+	}
+}
+
+// ─── Running ─────────────────────────────────────────────────
+
+/**
+ * Runs the impacted tests. With `affectedTests.command` configured they run in a terminal;
+ * otherwise each test case is run at its location through the Testing API, so whichever
+ * test controller owns the file executes it.
+ */
+export async function runAffectedTests(files: ImpactedTestFile[]) {
+	if (files.length === 0) {
+		vscode.window.showInformationMessage('No impacted tests to run');
+		return;
+	}
+
+	const command = vscode.workspace.getConfiguration('dependencyImpactVisualizer')
+		.get<string>('affectedTests.command', '')
+		.trim();
+
+	if (command) {
+		runInTerminal(command, files);
+	} else {
+		await runInTestExplorer(files);
+	}
+}
+
+async function runInTestExplorer(files: ImpactedTestFile[]) {
+	for (const file of files) {
+		const tests = file.cases.filter(c => c.kind === 'test');
+		// No individual test found (e.g. a helper at the top of the file): run the whole file
+		const targets = tests.length > 0 ? tests.map(t => t.line) : [undefined];
+
+		for (const line of targets) {
+			await vscode.window.showTextDocument(file.uri, {
+				preview: false,
+				preserveFocus: false,
+				selection: line !== undefined ? new vscode.Range(line, 0, line, 0) : undefined
+			});
+			await vscode.commands.executeCommand(line !== undefined ? 'testing.runAtCursor' : 'testing.runCurrentFile');
+		}
+	}
+}
+
+function runInTerminal(template: string, files: ImpactedTestFile[]) {
+	const shell = terminalShell();
+	const paths = files.map(f => shellQuote(vscode.workspace.asRelativePath(f.uri, false), shell)).join(' ');
+	const names = [...new Set(files.flatMap(f => f.cases.filter(c => c.kind === 'test').map(c => c.name)))];
+	// An empty pattern would match, and run, every test of the project
+	if (names.length === 0 && /\$\{tests\}/.test(template)) {
+		vscode.window.showWarningMessage('No test names found in the impacted test files to fill in ${tests}; use ${files} in the command to run the files instead');
+		return;
+	}
+	const pattern = shellQuote(names.map(n => n.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), shell);
+
+	const usesPlaceholder = /\$\{(files|tests)\}/.test(template);
+	const command = usesPlaceholder
+		? template.replace(/\$\{files\}/g, paths).replace(/\$\{tests\}/g, pattern)
+		: `${template} ${paths}`;
+
+	const cwd = vscode.workspace.getWorkspaceFolder(files[0].uri)?.uri;
+	const terminal = vscode.window.terminals.find(t => t.name === 'Affected Tests')
+		?? vscode.window.createTerminal({ name: 'Affected Tests', cwd });
+	terminal.show();
+	terminal.sendText(command);
+}
+
+type ShellKind = 'posix' | 'powershell' | 'cmd';
+
+/** The integrated terminal's default shell, which a new terminal runs the command in */
+function terminalShell(): ShellKind {
+	const fallback = process.platform === 'win32' ? 'powershell.exe' : 'sh';
+	const shell = path.basename(vscode.env.shell || fallback).toLowerCase();
+	if (shell.startsWith('powershell') || shell.startsWith('pwsh')) { return 'powershell'; }
+	return shell === 'cmd' || shell === 'cmd.exe' ? 'cmd' : 'posix';
+}
+
+/** One argument for the shell; cmd.exe still expands `%VAR%` inside quotes, which no quoting prevents */
+function shellQuote(value: string, shell: ShellKind): string {
+	switch (shell) {
+		case 'powershell':
+			return `'${value.replace(/'/g, `''`)}'`;
+		case 'cmd':
+			return `"${value.replace(/"/g, '""')}"`;
+		default:
+			return `'${value.replace(/'/g, `'\\''`)}'`;
+	}
+}
@@ -0,0 +1,115 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DependencyNode, ImpactAnalysis } from './types';
+import { ParsedModule, parseModule } from './moduleParser';
+import { ResolverConfig, resolveImport } from './moduleResolver';
+import { loadResolverConfig } from './resolverConfig';
+import { DependencyIndex, EXCLUDE_GLOB, SOURCE_GLOB } from './dependencyIndex';
+import { classifyFile } from './classification';
+import { addLink, createImpactGraph, stableNodeId } from './impactEngine';
+
+// ─── Module Dependency Graph ─────────────────────────────────
+
+export interface ModuleSet {
+	modules: ReadonlyMap<string, ParsedModule>;
+	config: ResolverConfig;
+}
+
+/** Parsed modules of the whole workspace: from the dependency index when fresh, otherwise read from disk */
+export async function collectModules(index: DependencyIndex | undefined): Promise<ModuleSet> {
+	const snapshot = index?.snapshot();
+	if (snapshot) { return snapshot; }
+
+	const [config, files] = await Promise.all([
+		loadResolverConfig(),
+		vscode.workspace.findFiles(SOURCE_GLOB, EXCLUDE_GLOB)
+	]);
+	const modules = new Map<string, ParsedModule>();
+	for (const uri of files) {
+		try {
+			modules.set(uri.fsPath, parseModule(new TextDecoder().decode(await vscode.workspace.fs.readFile(uri))));
+		} catch {
+			// Unreadable files simply have no edges
+		}
+	}
+	return { modules, config };
+}
+
+/**
+ * File-level import graph of every module under `scope` (the whole workspace when undefined),
+ * with an `imports` edge from each importer to the file it imports. Workspace files outside the
+ * scope that are imported from inside it are included one hop out, so the scope's dependencies
+ * on the rest of the codebase stay visible.
+ */
+export function buildModuleGraph({ modules, config }: ModuleSet, scope: vscode.Uri | undefined): ImpactAnalysis {
+	const graph = createImpactGraph();
+	const fileNodes = new Map<string, DependencyNode>();
+	const exists = (filePath: string) => modules.has(filePath);
+
+	const nodeFor = (filePath: string, depth: number) => {
+		let node = fileNodes.get(filePath);
+		if (!node) {
+			const fileName = filePath.split(/[\\/]/).pop() || 'unknown';
+			node = {
+				id: stableNodeId(graph, `mod:${filePath}`),
+				name: vscode.workspace.asRelativePath(filePath),
+				fileName,
+				uri: filePath,
+				line: 1,
+				type: classifyFile(fileName),
+				references: 0,
+				isRoot: false,
+				depth
+			};
+			fileNodes.set(filePath, node);
+			graph.nodes.push(node);
+		}
+		return node;
+	};
+
+	const inScope = [...modules.keys()]
+		.filter(filePath => !scope || isInside(filePath, scope.fsPath))
+		.sort();
+
+	const valueImports = new Set<string>();
+	for (const filePath of inScope) {
+		const importer = nodeFor(filePath, 0);
+		// Value imports first, so an edge also imported for its types points at the runtime import
+		const imports = [...modules.get(filePath)!.imports].sort((a, b) => Number(a.typeOnly) - Number(b.typeOnly));
+
+		for (const imp of imports) {
+			const target = resolveImport(filePath, imp.specifier, exists, config);
+			if (!target || target === filePath) { continue; }
+
+			const imported = nodeFor(target, isInside(target, scope?.fsPath) ? 0 : 1);
+			addLink(graph, importer.id, imported.id, 'imports', imp.line + 1);
+			if (!imp.typeOnly) { valueImports.add(`${importer.id}->${imported.id}`); }
+		}
+	}
+	for (const link of graph.links) {
+		if (!valueImports.has(`${link.source}->${link.target}`)) { link.typeOnly = true; }
+	}
+
+	// A file's weight in the graph is the number of files importing it
+	const byId = new Map(graph.nodes.map(n => [n.id, n]));
+	for (const link of graph.links) {
+		byId.get(link.target)!.references++;
+	}
+
+	return {
+		symbol: scope ? vscode.workspace.asRelativePath(scope) : 'Workspace',
+		sourceFile: scope ? scope.fsPath.split(/[\\/]/).pop() || 'unknown' : 'workspace',
+		affectedFiles: graph.nodes.length,
+		totalReferences: graph.links.length,
+		maxDepth: graph.nodes.some(n => n.depth > 0) ? 1 : 0,
+		nodes: graph.nodes,
+		links: graph.links,
+		moduleGraph: true
+	};
+}
+
+function isInside(filePath: string, dir: string | undefined): boolean {
+	if (!dir) { return true; }
+	const relative = path.relative(dir, filePath);
+	return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
@@ -0,0 +1,324 @@
+// ─── Module Parsing ──────────────────────────────────────────
+
+export interface ImportBinding {
+	/** Name exported by the imported module: an identifier, `default`, or `*` for the whole module */
+	imported: string;
+	/** Local name in the importing file; for re-exports, the name it is exported under */
+	local: string;
+}
+
+export interface ModuleImport {
+	specifier: string;
+	/** Zero-based line of the statement */
+	line: number;
+	bindings: ImportBinding[];
+	/** `export ... from` statements pass the bindings through instead of using them */
+	reexport: boolean;
+	/** `import type` / `export type`, or only `type` bindings: erased on compile, so no runtime dependency */
+	typeOnly: boolean;
+}
+
+export interface ModuleExport {
+	/** Exported name (`default` for default exports) */
+	name: string;
+	/** Identifier the export refers to inside the file */
+	local: string;
+	line: number;
+	character: number;
+}
+
+export interface ParsedModule {
+	imports: ModuleImport[];
+	exports: ModuleExport[];
+	/**
+	 * Positions (`[line, character]`) where imported bindings and exported locals appear
+	 * outside comments and strings. Member access on a namespace import is keyed `ns.member`.
+	 */
+	occurrences: Record<string, [number, number][]>;
+	/**
+	 * Tracked names that are declared again inside the file (parameters, locals), so some of their
+	 * occurrences refer to something else and only a language server can tell which
+	 */
+	shadowed: string[];
+}
+
+const ID = '[A-Za-z_$][\\w$]*';
+
+const IMPORT_FROM = new RegExp(`\\bimport\\s+(type\\s+)?([^;'"\`]*?)\\s*\\bfrom\\s*(['"])([^'"]+)\\3`, 'g');
+const IMPORT_BARE = /\bimport\s*(['"])([^'"]+)\1/g;
+const IMPORT_DYNAMIC = /\bimport\s*\(\s*(['"])([^'"]+)\1\s*\)/g;
+const REEXPORT_NAMED = /\bexport\s+(type\s+)?\{([^}]*)\}\s*from\s*(['"])([^'"]+)\3/g;
+const REEXPORT_ALL = new RegExp(`\\bexport(?:\\s+(type))?\\s*\\*\\s*(?:as\\s+(${ID})\\s*)?from\\s*(['"])([^'"]+)\\3`, 'g');
+const REQUIRE_DECL = new RegExp(`\\b(?:const|let|var)\\s+(${ID}|\\{[^}]*\\})\\s*=\\s*require\\s*\\(\\s*(['"])([^'"]+)\\2\\s*\\)`, 'g');
+const REQUIRE_BARE = /\brequire\s*\(\s*(['"])([^'"]+)\1\s*\)/g;
+
+const EXPORT_DECLARATIONS = [
+	new RegExp(`\\bexport\\s+(default\\s+)?(?:async\\s+)?function\\s*\\*?\\s*(${ID})`, 'g'),
+	new RegExp(`\\bexport\\s+(default\\s+)?(?:abstract\\s+)?class\\s+(${ID})`, 'g'),
+	new RegExp(`\\bexport\\s+()(?:declare\\s+)?(?:const\\s+enum|const|let|var|interface|type|enum|namespace)\\s+(${ID})`, 'g'),
+	new RegExp(`\\b(?:module\\.)?exports\\.()(${ID})\\s*=`, 'g'),
+];
+const EXPORT_DEFAULT_IDENTIFIER = new RegExp(`\\bexport\\s+default\\s+(?!function\\b|class\\b|async\\b|abstract\\b)(${ID})\\s*(?:;|$)`, 'gm');
+const EXPORT_LIST = /\bexport\s+(?:type\s+)?\{([^}]*)\}(?!\s*from)/g;
+
+/** Extracts imports, exports and identifier occurrences from JavaScript or TypeScript source */
+export function parseModule(text: string): ParsedModule {
+	const code = blankComments(text, false);
+	const bare = blankComments(text, true);
+	const lineStarts = computeLineStarts(text);
+	const positionAt = (offset: number): [number, number] => {
+		let low = 0, high = lineStarts.length - 1;
+		while (low < high) {
+			const mid = (low + high + 1) >> 1;
+			if (lineStarts[mid] <= offset) { low = mid; } else { high = mid - 1; }
+		}
+		return [low, offset - lineStarts[low]];
+	};
+
+	const imports: ModuleImport[] = [];
+	const claimed = new Set<number>();
+	const addImport = (offset: number, specifier: string, bindings: ImportBinding[], reexport = false, typeOnly = false) => {
+		claimed.add(offset);
+		imports.push({ specifier, line: positionAt(offset)[0], bindings, reexport, typeOnly });
+	};
+
+	for (const m of code.matchAll(IMPORT_FROM)) {
+		addImport(m.index!, m[4], parseImportClause(m[2]), false, !!m[1] || onlyTypes(m[2]));
+	}
+	for (const m of code.matchAll(REEXPORT_NAMED)) {
+		addImport(m.index!, m[4], parseNamedList(m[2]), true, !!m[1] || onlyTypes(`{${m[2]}}`));
+	}
+	for (const m of code.matchAll(REEXPORT_ALL)) {
+		addImport(m.index!, m[4], [{ imported: '*', local: m[2] ?? '*' }], true, !!m[1]);
+	}
+	for (const m of code.matchAll(REQUIRE_DECL)) {
+		const target = m[1];
+		const bindings = target.startsWith('{')
+			? parseNamedList(target.slice(1, -1).replace(/:/g, ' as '))
+			: [{ imported: '*', local: target }];
+		addImport(m.index!, m[3], bindings);
+		claimed.add(m.index! + m[0].indexOf('require'));
+	}
+	for (const pattern of [IMPORT_BARE, IMPORT_DYNAMIC, REQUIRE_BARE]) {
+		for (const m of code.matchAll(pattern)) {
+			if (!claimed.has(m.index!)) { addImport(m.index!, m[2], []); }
+		}
+	}
+	imports.sort((a, b) => a.line - b.line);
+
+	const exports: ModuleExport[] = [];
+	const addExport = (name: string, local: string, offset: number) => {
+		const [line, character] = positionAt(offset);
+		exports.push({ name, local, line, character });
+	};
+
+	for (const pattern of EXPORT_DECLARATIONS) {
+		for (const m of code.matchAll(pattern)) {
+			const nameOffset = m.index! + m[0].lastIndexOf(m[2]);
+			addExport(m[1] ? 'default' : m[2], m[2], nameOffset);
+		}
+	}
+	for (const m of code.matchAll(EXPORT_DEFAULT_IDENTIFIER)) {
+		addExport('default', m[1], m.index! + m[0].lastIndexOf(m[1]));
+	}
+	for (const m of code.matchAll(EXPORT_LIST)) {
+		const listOffset = m.index! + m[0].indexOf('{') + 1;
+		for (const binding of parseNamedList(m[1])) {
+			const localOffset = m[1].search(new RegExp(`(?<![\\w$])${escapeRegExp(binding.imported)}(?![\\w$])`));
+			addExport(binding.local, binding.imported, listOffset + Math.max(localOffset, 0));
+		}
+	}
+	exports.sort((a, b) => a.line - b.line || a.character - b.character);
+
+	const occurrences: Record<string, [number, number][]> = {};
+	const tracked = new Set<string>(exports.map(e => e.local));
+	const namespaces = new Set<string>();
+	for (const imp of imports) {
+		if (imp.reexport) { continue; }
+		for (const binding of imp.bindings) {
+			(binding.imported === '*' ? namespaces : tracked).add(binding.local);
+		}
+	}
+
+	const imported = new Set(imports.flatMap(imp => imp.reexport ? [] : imp.bindings.map(b => b.local)));
+	const shadowed: string[] = [];
+	for (const name of tracked) {
+		const pattern = new RegExp(`(?<![\\w$.])${escapeRegExp(name)}(?![\\w$])`, 'g');
+		const offsets = [...bare.matchAll(pattern)].map(m => m.index!).filter(offset => !isPropertyKey(bare, offset, name));
+		occurrences[name] = offsets.map(positionAt);
+
+		// An export may be declared once; an import binding is its only declaration
+		const declarations = offsets.filter(offset => isDeclaration(bare, offset, name)).length;
+		if (declarations > (imported.has(name) ? 0 : 1)) { shadowed.push(name); }
+	}
+	for (const ns of namespaces) {
+		const pattern = new RegExp(`(?<![\\w$.])${escapeRegExp(ns)}\\s*\\.\\s*(${ID})`, 'g');
+		occurrences[ns] = [];
+		for (const m of bare.matchAll(pattern)) {
+			const key = `${ns}.${m[1]}`;
+			(occurrences[key] ??= []).push(positionAt(m.index! + m[0].lastIndexOf(m[1])));
+		}
+		for (const m of bare.matchAll(new RegExp(`(?<![\\w$.])${escapeRegExp(ns)}(?![\\w$])`, 'g'))) {
+			occurrences[ns].push(positionAt(m.index!));
+		}
+	}
+
+	return { imports, exports, occurrences, shadowed };
+}
+
+/** `Default, { a, b as c }` / `* as ns` → bindings */
+function parseImportClause(clause: string): ImportBinding[] {
+	const bindings: ImportBinding[] = [];
+	const named = /\{([^}]*)\}/.exec(clause);
+	if (named) { bindings.push(...parseNamedList(named[1])); }
+
+	const namespace = new RegExp(`\\*\\s*as\\s+(${ID})`).exec(clause);
+	if (namespace) { bindings.push({ imported: '*', local: namespace[1] }); }
+
+	const defaultName = new RegExp(`^\\s*(${ID})\\s*(?:,|$)`).exec(clause);
+	if (defaultName && defaultName[1] !== 'type') { bindings.push({ imported: 'default', local: defaultName[1] }); }
+
+	return bindings;
+}
+
+/** `{ type A, type B as C }`: named bindings that are all marked `type`, without a default or namespace import */
+function onlyTypes(clause: string): boolean {
+	const named = /^\s*\{([^}]*)\}\s*$/.exec(clause);
+	const parts = named?.[1].split(',').map(part => part.trim()).filter(part => part.length > 0) ?? [];
+	return parts.length > 0 && parts.every(part => /^type\s+/.test(part));
+}
+
+/** `a, type b, c as d` → bindings */
+function parseNamedList(list: string): ImportBinding[] {
+	return list.split(',')
+		.map(part => part.trim().replace(/^type\s+/, ''))
+		.filter(part => part.length > 0)
+		.map(part => {
+			const [imported, local] = part.split(/\s+as\s+/).map(s => s.trim());
+			return { imported, local: local ?? imported };
+		});
+}
+
+/** `{ name: 1 }` or `{ a, name: 1 }`: a property name rather than a use of the binding */
+function isPropertyKey(code: string, offset: number, name: string): boolean {
+	return /^\s*:/.test(code.slice(offset + name.length))
+		&& /[{,]\s*$/.test(code.slice(0, offset))
+		&& code[openingBracket(code, offset)] === '{';
+}
+
+const DECLARATION_KEYWORD = /\b(?:const|let|var|function\s*\*?|class)\s+$/;
+const CONTROL_KEYWORD = /\b(?:if|while|for|switch|with|return|typeof|await)\s*$/;
+
+/**
+ * Whether the occurrence declares the name: after `const`, `function` and the like, or as a
+ * parameter, i.e. alone between `(` / `,` and `,` / `)` of a parenthesized list followed by
+ * `=>`, `{` or a return type. Erring towards "declared" only costs a language server lookup.
+ */
+function isDeclaration(code: string, offset: number, name: string): boolean {
+	const before = code.slice(Math.max(0, offset - 40), offset);
+	if (DECLARATION_KEYWORD.test(before)) { return true; }
+
+	const after = code.slice(offset + name.length);
+	if (/^\s*=>/.test(after) && /(?:^|[(,=\s])\s*$/.test(before)) { return true; }
+	if (!/(?:\(|,|\.\.\.)\s*$/.test(before) || !/^\s*[,)=:?]/.test(after)) { return false; }
+
+	const open = openingBracket(code, offset);
+	if (code[open] !== '(' || CONTROL_KEYWORD.test(code.slice(Math.max(0, open - 10), open))) { return false; }
+
+	let depth = 0;
+	for (let i = offset; i < code.length; i++) {
+		const ch = code[i];
+		if (ch === '(' || ch === '[' || ch === '{') { depth++; }
+		else if (ch === ')' || ch === ']' || ch === '}') {
+			if (depth === 0) { return ch === ')' && /^\s*(?:=>|\{|:)/.test(code.slice(i + 1)); }
+			depth--;
+		}
+	}
+	return false;
+}
+
+/** Offset of the innermost bracket left open before `offset`, or -1 */
+function openingBracket(code: string, offset: number): number {
+	let depth = 0;
+	for (let i = offset - 1; i >= 0; i--) {
+		const ch = code[i];
+		if (ch === ')' || ch === ']' || ch === '}') {
+			depth++;
+		} else if (ch === '(' || ch === '[' || ch === '{') {
+			if (depth === 0) { return i; }
+			depth--;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Replaces comments (and with `stripStrings`, string and template text) with spaces, keeping
+ * every other character at its offset so positions still line up with the source. The
+ * `${…}` expressions of template literals are code and are kept.
+ */
+function blankComments(text: string, stripStrings: boolean): string {
+	const out = text.split('');
+	const blank = (i: number) => { if (stripStrings && text[i] !== '\n') { out[i] = ' '; } };
+	// Brace depth at which each open template expression started
+	const templates: number[] = [];
+	let depth = 0;
+
+	/** Template text from `i` up to and including its closing backtick or the next `${` */
+	const skipTemplateText = (i: number): number => {
+		while (i < text.length) {
+			if (text[i] === '`') { return i + 1; }
+			if (text[i] === '$' && text[i + 1] === '{') {
+				templates.push(depth++);
+				return i + 2;
+			}
+			if (text[i] === '\\') { blank(i++); }
+			blank(i++);
+		}
+		return i;
+	};
+
+	let i = 0;
+	while (i < text.length) {
+		const ch = text[i];
+		const next = text[i + 1];
+
+		if (ch === '/' && next === '/') {
+			while (i < text.length && text[i] !== '\n') { out[i++] = ' '; }
+		} else if (ch === '/' && next === '*') {
+			const end = text.indexOf('*/', i + 2);
+			const stop = end < 0 ? text.length : end + 2;
+			for (; i < stop; i++) { if (text[i] !== '\n') { out[i] = ' '; } }
+		} else if (ch === '"' || ch === '\'') {
+			i++;
+			while (i < text.length && text[i] !== ch && text[i] !== '\n') {
+				if (text[i] === '\\') { blank(i++); }
+				blank(i++);
+			}
+			i++;
+		} else if (ch === '`') {
+			i = skipTemplateText(i + 1);
+		} else if (ch === '}' && templates.length > 0 && templates[templates.length - 1] === depth - 1) {
+			templates.pop();
+			depth--;
+			i = skipTemplateText(i + 1);
+		} else {
+			if (ch === '{') { depth++; }
+			if (ch === '}') { depth--; }
+			i++;
+		}
+	}
+	return out.join('');
+}
+
+function computeLineStarts(text: string): number[] {
+	const starts = [0];
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] === '\n') { starts.push(i + 1); }
+	}
+	return starts;
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
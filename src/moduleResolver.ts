@@ -0,0 +1,133 @@
+import * as path from 'path';
+
+// ─── Module Resolution ───────────────────────────────────────
+
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/** `compilerOptions.paths` / `baseUrl` of one tsconfig.json or jsconfig.json */
+export interface PathAliases {
+	/** Directory of the config file; its aliases apply to files below it */
+	projectDir: string;
+	/** Directory alias targets are relative to */
+	baseDir: string;
+	/** Whether `baseUrl` was set, which makes bare specifiers resolvable against `baseDir` */
+	hasBaseUrl: boolean;
+	paths: Record<string, string[]>;
+}
+
+/** A package of an npm, yarn or pnpm workspace */
+export interface WorkspacePackage {
+	name: string;
+	dir: string;
+	/** Entry files named in package.json (`source`, `types`, `module`, `main`), relative to `dir` */
+	entries: string[];
+}
+
+export interface ResolverConfig {
+	aliases: PathAliases[];
+	packages: WorkspacePackage[];
+}
+
+export const EMPTY_RESOLVER_CONFIG: ResolverConfig = { aliases: [], packages: [] };
+
+/**
+ * Resolves an import specifier to a source file for which `exists` returns true: relative
+ * paths, tsconfig path aliases (nearest config first) and workspace packages. Anything else
+ * (e.g. a dependency in node_modules) is external and resolves to undefined.
+ */
+export function resolveImport(
+	fromFile: string,
+	specifier: string,
+	exists: (filePath: string) => boolean,
+	config: ResolverConfig = EMPTY_RESOLVER_CONFIG
+): string | undefined {
+	if (specifier.startsWith('.')) {
+		return resolveRelativeImport(fromFile, specifier, exists);
+	}
+
+	const projects = config.aliases
+		.filter(project => isWithin(fromFile, project.projectDir))
+		.sort((a, b) => b.projectDir.length - a.projectDir.length);
+
+	for (const project of projects) {
+		for (const [pattern, targets] of Object.entries(project.paths)) {
+			const wildcard = matchAliasPattern(pattern, specifier);
+			if (wildcard === undefined) { continue; }
+
+			for (const target of targets) {
+				const resolved = resolveModulePath(path.resolve(project.baseDir, target.replace('*', wildcard)), exists);
+				if (resolved) { return resolved; }
+			}
+		}
+		if (project.hasBaseUrl) {
+			const resolved = resolveModulePath(path.resolve(project.baseDir, specifier), exists);
+			if (resolved) { return resolved; }
+		}
+	}
+
+	for (const pkg of config.packages) {
+		if (specifier !== pkg.name && !specifier.startsWith(`${pkg.name}/`)) { continue; }
+
+		const subpath = specifier.slice(pkg.name.length + 1);
+		const candidates = subpath
+			? [path.join(pkg.dir, subpath), path.join(pkg.dir, 'src', subpath)]
+			: [...pkg.entries.map(entry => path.join(pkg.dir, entry)), path.join(pkg.dir, 'src', 'index'), path.join(pkg.dir, 'index')];
+
+		for (const candidate of candidates) {
+			const resolved = resolveModulePath(candidate, exists);
+			if (resolved) { return resolved; }
+		}
+	}
+
+	return undefined;
+}
+
+/** Resolves a relative import specifier to a source file for which `exists` returns true */
+export function resolveRelativeImport(
+	fromFile: string,
+	specifier: string,
+	exists: (filePath: string) => boolean
+): string | undefined {
+	if (!specifier.startsWith('.')) { return undefined; }
+	return resolveModulePath(path.resolve(path.dirname(fromFile), specifier), exists);
+}
+
+/** Tries `base` as a file, with each source extension, then as a directory with an index file */
+export function resolveModulePath(base: string, exists: (filePath: string) => boolean): string | undefined {
+	const candidates = [base];
+
+	// ESM-style TypeScript imports name the emitted `.js` file rather than the source
+	const emitted = /\.([mc]?)jsx?$/.exec(base);
+	if (emitted) {
+		const stem = base.slice(0, -emitted[0].length);
+		candidates.push(`${stem}.${emitted[1]}ts`, `${stem}.tsx`);
+	}
+
+	// Package entries often point at build output (`dist/index.js`, `dist/index.d.ts`)
+	const declaration = /\.d\.[mc]?ts$/.exec(base);
+	if (declaration) {
+		candidates.push(base.slice(0, -declaration[0].length));
+	}
+
+	candidates.push(...SOURCE_EXTENSIONS.map(ext => base + ext));
+	candidates.push(...SOURCE_EXTENSIONS.map(ext => path.join(base, `index${ext}`)));
+
+	return candidates.find(exists);
+}
+
+/** Matches `@app/*` style patterns (at most one `*`); returns the wildcard's text, or undefined */
+function matchAliasPattern(pattern: string, specifier: string): string | undefined {
+	const star = pattern.indexOf('*');
+	if (star < 0) { return pattern === specifier ? '' : undefined; }
+
+	const prefix = pattern.slice(0, star);
+	const suffix = pattern.slice(star + 1);
+	if (specifier.length < prefix.length + suffix.length) { return undefined; }
+	if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) { return undefined; }
+	return specifier.slice(prefix.length, specifier.length - suffix.length);
+}
+
+function isWithin(filePath: string, dir: string): boolean {
+	const relative = path.relative(dir, filePath);
+	return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
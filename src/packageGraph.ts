@@ -0,0 +1,74 @@
+import * as path from 'path';
+import { ImpactAnalysis, PackageImpact, PackageLink } from './types';
+
+// ─── Package Impact ──────────────────────────────────────────
+
+/** One unit of a monorepo: a workspace package, a referenced TypeScript project or a workspace folder */
+export interface PackageScope {
+	name: string;
+	dir: string;
+}
+
+/** The innermost package containing the file */
+export function findPackage(filePath: string, scopes: readonly PackageScope[]): PackageScope | undefined {
+	let found: PackageScope | undefined;
+	for (const scope of scopes) {
+		if (isInside(filePath, scope.dir) && (!found || scope.dir.length > found.dir.length)) {
+			found = scope;
+		}
+	}
+	return found;
+}
+
+/**
+ * Tags every node with the package its file is in, then sums up which packages the analysis
+ * reaches and how many edges lead from one package into another. Workspaces with a single
+ * package are left as they are.
+ */
+export function assignPackages(analysis: ImpactAnalysis, scopes: readonly PackageScope[]) {
+	if (scopes.length < 2) { return; }
+
+	const packages = new Map<string, PackageImpact & { fileSet: Set<string> }>();
+	for (const node of analysis.nodes) {
+		const scope = findPackage(node.uri, scopes);
+		if (!scope) { continue; }
+		node.package = scope.name;
+		// Locations that are no longer impacted only show up in a comparison
+		if (node.isRoot || node.diff === 'removed') { continue; }
+
+		let impact = packages.get(scope.name);
+		if (!impact) {
+			impact = { name: scope.name, dir: scope.dir, nodes: 0, files: 0, fileSet: new Set() };
+			packages.set(scope.name, impact);
+		}
+		impact.nodes++;
+		impact.fileSet.add(node.uri);
+	}
+
+	const packageOf = new Map(analysis.nodes.map(n => [n.id, n.package]));
+	const links = new Map<string, PackageLink>();
+	for (const link of analysis.links) {
+		if (link.diff === 'removed') { continue; }
+		const source = packageOf.get(link.source);
+		const target = packageOf.get(link.target);
+		if (!source || !target || source === target) { continue; }
+
+		const key = `${source}->${target}`;
+		const existing = links.get(key);
+		if (existing) {
+			existing.links++;
+		} else {
+			links.set(key, { source, target, links: 1 });
+		}
+	}
+
+	analysis.packages = [...packages.values()]
+		.map(({ fileSet, ...impact }) => ({ ...impact, files: fileSet.size }))
+		.sort((a, b) => b.nodes - a.nodes || a.name.localeCompare(b.name));
+	analysis.packageLinks = [...links.values()];
+}
+
+function isInside(filePath: string, dir: string): boolean {
+	const relative = path.relative(dir, filePath);
+	return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
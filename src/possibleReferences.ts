@@ -0,0 +1,119 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DependencyNode, ImpactAnalysis } from './types';
+import { findTextMentions } from './textMentions';
+import { globToRegExp } from './architectureRules';
+import { SOURCE_EXTENSIONS } from './moduleResolver';
+import { EXCLUDE_GLOB } from './dependencyIndex';
+import { countAffectedFiles } from './impactEngine';
+
+// ─── Possible References ─────────────────────────────────────
+
+/** Generated bundles and data dumps are no place to look for references */
+const MAX_FILE_LENGTH = 1_000_000;
+/** The search also runs on real-time updates, so broad include globs must not read the whole workspace each time */
+const MAX_SEARCHED_FILES = 1000;
+
+export interface TextSearchSettings {
+	enabled: boolean;
+	/** Workspace-relative globs of the files to search */
+	include: string[];
+	exclude: string[];
+}
+
+export function getTextSearchSettings(): TextSearchSettings {
+	const config = vscode.workspace.getConfiguration('dependencyImpactVisualizer.textSearch');
+	return {
+		enabled: config.get<boolean>('enabled', false),
+		include: config.get<string[]>('include', []),
+		exclude: config.get<string[]>('exclude', [])
+	};
+}
+
+export interface PossibleReference {
+	uri: vscode.Uri;
+	/** 0-based */
+	line: number;
+	excerpt: string;
+}
+
+/**
+ * Searches the included files for the symbol's name: whole-word mentions anywhere in config
+ * files, templates and other non-code files, and inside string literals in JavaScript and
+ * TypeScript, whose code the reference provider already covers. Lines holding one of the
+ * `locations` are left out. At most `MAX_SEARCHED_FILES` files are read.
+ */
+export async function findPossibleReferences(
+	name: string,
+	locations: vscode.Location[],
+	settings: Pick<TextSearchSettings, 'include' | 'exclude'>,
+	token?: vscode.CancellationToken
+): Promise<PossibleReference[]> {
+	const referenceLines = new Set(locations.map(loc => `${loc.uri.fsPath}:${loc.range.start.line}`));
+	const excluded = settings.exclude.map(globToRegExp);
+	const files = new Map<string, vscode.Uri>();
+	for (const include of settings.include) {
+		const remaining = MAX_SEARCHED_FILES - files.size;
+		if (remaining <= 0 || token?.isCancellationRequested) { break; }
+		for (const uri of await vscode.workspace.findFiles(include, EXCLUDE_GLOB, remaining, token)) {
+			const relativePath = vscode.workspace.asRelativePath(uri, false).replace(/\\/g, '/');
+			if (!excluded.some(pattern => pattern.test(relativePath))) { files.set(uri.fsPath, uri); }
+		}
+	}
+
+	const found: PossibleReference[] = [];
+	for (const uri of files.values()) {
+		if (token?.isCancellationRequested) { break; }
+		const text = await readText(uri);
+		if (text.length > MAX_FILE_LENGTH) { continue; }
+
+		const inStringsOnly = SOURCE_EXTENSIONS.includes(path.extname(uri.fsPath).toLowerCase());
+		for (const { line, excerpt } of findTextMentions(text, name, inStringsOnly)) {
+			if (!referenceLines.has(`${uri.fsPath}:${line}`)) {
+				found.push({ uri, line, excerpt });
+			}
+		}
+	}
+	return found;
+}
+
+/**
+ * Adds the mentions as `possible` nodes, one per line, hanging off the root with `mentions`
+ * edges. They are not followed further: nothing says they refer to the symbol at all.
+ */
+export function addPossibleReferences(analysis: ImpactAnalysis, references: PossibleReference[]) {
+	const ids = new Set(analysis.nodes.map(n => n.id));
+	const root = analysis.nodes.find(n => n.isRoot);
+	if (!root) { return; }
+
+	for (const { uri, line, excerpt } of references) {
+		const node: DependencyNode = {
+			id: `text:${uri.fsPath}:${line + 1}`,
+			name: `L${line + 1}`,
+			fileName: vscode.workspace.asRelativePath(uri),
+			uri: uri.fsPath,
+			line: line + 1,
+			type: 'possible',
+			references: 1,
+			isRoot: false,
+			depth: 1,
+			excerpt
+		};
+		if (ids.has(node.id)) { continue; }
+		ids.add(node.id);
+		analysis.nodes.push(node);
+		analysis.links.push({ source: root.id, target: node.id, type: 'mentions' });
+	}
+	analysis.affectedFiles = countAffectedFiles(analysis.nodes, analysis.links);
+}
+
+/** Open documents as edited, other files as saved */
+async function readText(uri: vscode.Uri): Promise<string> {
+	const open = vscode.workspace.textDocuments.find(d => d.uri.fsPath === uri.fsPath);
+	if (open) { return open.getText(); }
+	try {
+		return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+	} catch {
+		return '';
+	}
+}
@@ -0,0 +1,159 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DependencyNode, ImpactAnalysis } from './types';
+import { SOURCE_EXTENSIONS } from './moduleResolver';
+import {
+	Signature,
+	SignatureChange,
+	callSiteProblems,
+	countArguments,
+	formatSignature,
+	parseSignature
+} from './signatureChange';
+
+// ─── Refactor Preview ────────────────────────────────────────
+
+/** How far past a reference to look for the end of its argument list */
+const CALL_TEXT_LENGTH = 2000;
+
+export interface Declaration {
+	location: vscode.Location;
+	signature: Signature;
+}
+
+/** Where the symbol at `position` is declared, and its signature as declared there */
+export async function findDeclaration(
+	document: vscode.TextDocument,
+	position: vscode.Position,
+	name: string
+): Promise<Declaration> {
+	const definitions = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+		'vscode.executeDefinitionProvider',
+		document.uri,
+		position
+	);
+	const definition = definitions?.[0];
+	const location = !definition ? new vscode.Location(document.uri, position)
+		: 'targetUri' in definition ? new vscode.Location(definition.targetUri, definition.targetSelectionRange ?? definition.targetRange)
+		: definition;
+
+	const declaring = await vscode.workspace.openTextDocument(location.uri);
+	const text = declaring.getText().slice(declaring.offsetAt(location.range.start));
+	// Definition ranges of some languages start at the keyword rather than the name
+	const nameAt = Math.max(text.indexOf(name), 0);
+	return {
+		location,
+		signature: parseSignature(text.slice(nameAt, nameAt + CALL_TEXT_LENGTH)) ?? { name }
+	};
+}
+
+/** The edit the language's rename provider would make; empty when the name stays */
+export async function computeRenameEdit(
+	uri: vscode.Uri,
+	position: vscode.Position,
+	change: SignatureChange
+): Promise<vscode.WorkspaceEdit> {
+	if (!change.renamed) { return new vscode.WorkspaceEdit(); }
+	const edit = await vscode.commands.executeCommand<vscode.WorkspaceEdit | undefined>(
+		'vscode.executeDocumentRenameProvider',
+		uri,
+		position,
+		change.after.name
+	);
+	return edit ?? new vscode.WorkspaceEdit();
+}
+
+/**
+ * The same edit with every change marked as needing confirmation, so applying it opens the
+ * Refactor Preview instead of changing files right away.
+ */
+export function toConfirmedEdit(edit: vscode.WorkspaceEdit, label: string): vscode.WorkspaceEdit {
+	const confirmed = new vscode.WorkspaceEdit();
+	const metadata: vscode.WorkspaceEditEntryMetadata = { needsConfirmation: true, label };
+	for (const [uri, edits] of edit.entries()) {
+		for (const textEdit of edits) {
+			confirmed.replace(uri, textEdit.range, textEdit.newText, metadata);
+		}
+	}
+	return confirmed;
+}
+
+/**
+ * Overlays the change on the symbol's impact analysis. Every first-hop node is marked
+ * `automatic` when the edit takes care of all its references and nothing else needs to
+ * change there, or `manual` with the reasons otherwise. Possible references, which the
+ * rename only knows about when they turn out to be real ones, are `manual` unless the edit
+ * touches their line.
+ */
+export async function previewRefactor(
+	analysis: ImpactAnalysis,
+	locations: vscode.Location[],
+	declaration: Declaration,
+	change: SignatureChange,
+	edit: vscode.WorkspaceEdit
+): Promise<void> {
+	const editedRanges = new Map<string, vscode.Range[]>();
+	for (const [uri, edits] of edit.entries()) {
+		editedRanges.set(uri.fsPath, edits.map(e => e.range));
+	}
+	const isEdited = (uri: vscode.Uri, range: vscode.Range) =>
+		(editedRanges.get(uri.fsPath) ?? []).some(edited => edited.contains(range));
+
+	async function referenceProblems(location: vscode.Location, isDeclaration: boolean): Promise<string[]> {
+		const notes: string[] = [];
+		if (!SOURCE_EXTENSIONS.includes(path.extname(location.uri.fsPath).toLowerCase())) {
+			notes.push('not a JavaScript or TypeScript file');
+		}
+		if (change.renamed && !isEdited(location.uri, location.range)) {
+			notes.push('not updated by the rename');
+		}
+		if (!isDeclaration) {
+			const document = await vscode.workspace.openTextDocument(location.uri);
+			const end = document.positionAt(document.offsetAt(location.range.end) + CALL_TEXT_LENGTH);
+			notes.push(...callSiteProblems(change, countArguments(document.getText(new vscode.Range(location.range.end, end)))));
+		}
+		return notes;
+	}
+
+	const notesByLocation: { location: vscode.Location; notes: string[] }[] = [];
+	for (const location of locations) {
+		const isDeclaration = location.uri.fsPath === declaration.location.uri.fsPath
+			&& location.range.contains(declaration.location.range.start);
+		notesByLocation.push({ location, notes: await referenceProblems(location, isDeclaration) });
+	}
+
+	for (const node of analysis.nodes) {
+		if (node.isRoot || node.depth !== 1) { continue; }
+		if (node.type === 'possible') {
+			const line = node.line - 1;
+			const editsLine = (editedRanges.get(node.uri) ?? []).some(r => r.start.line <= line && r.end.line >= line);
+			markNode(node, editsLine ? [] : [change.renamed
+				? 'mentions the name in text the rename leaves alone'
+				: 'mentions the name in text, so its uses cannot be checked']);
+			continue;
+		}
+		const matching = notesByLocation.filter(({ location }) => location.uri.fsPath === node.uri
+			&& (node.id.startsWith('file:') || isReferenceLine(node, location.range.start.line + 1)));
+		if (matching.length === 0) { continue; }
+		markNode(node, matching.flatMap(m => m.notes));
+	}
+
+	const firstHop = analysis.nodes.filter(n => n.refactor);
+	analysis.refactor = {
+		signature: formatSignature(change.after),
+		edits: edit.entries().reduce((count, [, edits]) => count + edits.length, 0),
+		files: edit.size,
+		automatic: firstHop.filter(n => n.refactor === 'automatic').length,
+		manual: firstHop.filter(n => n.refactor === 'manual').length
+	};
+}
+
+function isReferenceLine(node: DependencyNode, line: number): boolean {
+	return node.referenceLines ? node.referenceLines.includes(line) : node.line === line;
+}
+
+function markNode(node: DependencyNode, notes: string[]) {
+	const unique = [...new Set(notes)];
+	node.refactor = unique.length > 0 ? 'manual' : 'automatic';
+	if (unique.length > 0) { node.refactorNotes = unique; }
+}
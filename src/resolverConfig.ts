@@ -0,0 +1,202 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { PathAliases, ResolverConfig, WorkspacePackage } from './moduleResolver';
+import { PackageScope } from './packageGraph';
+
+// ─── Resolver Configuration ──────────────────────────────────
+
+/** Files whose changes can alter how imports resolve */
+export const RESOLVER_CONFIG_GLOB = '**/{tsconfig*.json,jsconfig*.json,package.json,pnpm-workspace.yaml}';
+const CONFIG_EXCLUDE_GLOB = '**/node_modules/**';
+const PACKAGE_ENTRY_FIELDS = ['source', 'types', 'typings', 'module', 'main'];
+
+/** Path aliases from every tsconfig.json / jsconfig.json and the packages of npm, yarn and pnpm workspaces */
+export async function loadResolverConfig(): Promise<ResolverConfig> {
+	const [aliases, packages] = await Promise.all([loadPathAliases(), loadWorkspacePackages()]);
+	return { aliases, packages };
+}
+
+interface AliasOptions {
+	paths?: Record<string, string[]>;
+	/** Directory of the config that declared `paths`; targets are relative to it without `baseUrl` */
+	pathsDir?: string;
+	/** Absolute `baseUrl` */
+	baseUrl?: string;
+}
+
+async function loadPathAliases(): Promise<PathAliases[]> {
+	const configs = await vscode.workspace.findFiles('**/{tsconfig,jsconfig}.json', CONFIG_EXCLUDE_GLOB);
+	const aliases: PathAliases[] = [];
+
+	for (const uri of configs) {
+		const options = await readAliasOptions(uri.fsPath, new Set());
+		if (!options.paths && !options.baseUrl) { continue; }
+
+		const projectDir = path.dirname(uri.fsPath);
+		aliases.push({
+			projectDir,
+			baseDir: options.baseUrl ?? options.pathsDir ?? projectDir,
+			hasBaseUrl: options.baseUrl !== undefined,
+			paths: options.paths ?? {}
+		});
+	}
+	return aliases;
+}
+
+/** `paths` and `baseUrl` of a config, following relative `extends` chains */
+async function readAliasOptions(configPath: string, visited: Set<string>): Promise<AliasOptions> {
+	if (visited.has(configPath)) { return {}; }
+	visited.add(configPath);
+
+	const config = await readJson(configPath);
+	if (!isObject(config)) { return {}; }
+
+	const configDir = path.dirname(configPath);
+	const bases: unknown[] = Array.isArray(config.extends) ? config.extends : [config.extends];
+	let options: AliasOptions = {};
+
+	// Shared configs from packages (`@tsconfig/node20`) never declare project paths
+	for (const base of bases) {
+		if (typeof base !== 'string' || !base.startsWith('.')) { continue; }
+		const basePath = path.resolve(configDir, base.endsWith('.json') ? base : `${base}.json`);
+		options = { ...options, ...await readAliasOptions(basePath, visited) };
+	}
+
+	const compilerOptions = isObject(config.compilerOptions) ? config.compilerOptions : {};
+	if (isObject(compilerOptions.paths)) {
+		options = { ...options, paths: toPathTargets(compilerOptions.paths), pathsDir: configDir };
+	}
+	if (typeof compilerOptions.baseUrl === 'string') {
+		options = { ...options, baseUrl: path.resolve(configDir, compilerOptions.baseUrl) };
+	}
+	return options;
+}
+
+async function loadWorkspacePackages(): Promise<WorkspacePackage[]> {
+	const packages: WorkspacePackage[] = [];
+
+	for (const folder of vscode.workspace.workspaceFolders ?? []) {
+		const patterns = [
+			...await readPackageJsonWorkspaces(vscode.Uri.joinPath(folder.uri, 'package.json').fsPath),
+			...await readPnpmWorkspaces(vscode.Uri.joinPath(folder.uri, 'pnpm-workspace.yaml').fsPath)
+		];
+
+		for (const pattern of patterns) {
+			if (pattern.startsWith('!')) { continue; }
+			const manifests = await vscode.workspace.findFiles(
+				new vscode.RelativePattern(folder, `${pattern.replace(/\/+$/, '')}/package.json`),
+				CONFIG_EXCLUDE_GLOB
+			);
+
+			for (const manifest of manifests) {
+				const pkg = await readJson(manifest.fsPath);
+				if (!isObject(pkg) || typeof pkg.name !== 'string') { continue; }
+				packages.push({
+					name: pkg.name,
+					dir: path.dirname(manifest.fsPath),
+					entries: PACKAGE_ENTRY_FIELDS.map(field => pkg[field]).filter((entry): entry is string => typeof entry === 'string')
+				});
+			}
+		}
+	}
+	return packages;
+}
+
+/**
+ * What a monorepo is made of, for grouping its files: workspace folders, the packages of npm, yarn
+ * and pnpm workspaces, and the projects tsconfig.json files list in `references`
+ */
+export async function loadPackageScopes(): Promise<PackageScope[]> {
+	const scopes: PackageScope[] = (vscode.workspace.workspaceFolders ?? [])
+		.map(folder => ({ name: folder.name, dir: folder.uri.fsPath }));
+	const [packages, projects] = await Promise.all([loadWorkspacePackages(), loadProjectReferences()]);
+	scopes.push(...packages.map(({ name, dir }) => ({ name, dir })));
+
+	for (const dir of projects) {
+		if (scopes.some(scope => scope.dir === dir)) { continue; }
+		const pkg = await readJson(path.join(dir, 'package.json'));
+		scopes.push({ name: isObject(pkg) && typeof pkg.name === 'string' ? pkg.name : vscode.workspace.asRelativePath(dir), dir });
+	}
+	return scopes;
+}
+
+/** Directories of the projects referenced by any tsconfig.json */
+async function loadProjectReferences(): Promise<string[]> {
+	const configs = await vscode.workspace.findFiles('**/tsconfig*.json', CONFIG_EXCLUDE_GLOB);
+	const dirs = new Set<string>();
+
+	for (const uri of configs) {
+		const config = await readJson(uri.fsPath);
+		const references = isObject(config) ? config.references : undefined;
+		if (!Array.isArray(references)) { continue; }
+		for (const reference of references) {
+			if (!isObject(reference) || typeof reference.path !== 'string') { continue; }
+			// A reference names either the project directory or its config file
+			const target = path.resolve(path.dirname(uri.fsPath), reference.path);
+			dirs.add(target.endsWith('.json') ? path.dirname(target) : target);
+		}
+	}
+	return [...dirs];
+}
+
+/** `workspaces` is either a list of globs or (yarn) `{ packages: [...] }` */
+async function readPackageJsonWorkspaces(manifestPath: string): Promise<string[]> {
+	const manifest = await readJson(manifestPath);
+	const workspaces = isObject(manifest) ? manifest.workspaces : undefined;
+	const patterns = isObject(workspaces) ? workspaces.packages : workspaces;
+	return Array.isArray(patterns) ? patterns.filter((p): p is string => typeof p === 'string') : [];
+}
+
+/** The `packages:` list of pnpm-workspace.yaml; the file is simple enough to not need a YAML parser */
+async function readPnpmWorkspaces(yamlPath: string): Promise<string[]> {
+	const text = await readText(yamlPath);
+	if (!text) { return []; }
+
+	const patterns: string[] = [];
+	let inPackages = false;
+	for (const line of text.split(/\r?\n/)) {
+		if (/^packages\s*:/.test(line)) {
+			inPackages = true;
+		} else if (/^\S/.test(line)) {
+			inPackages = false;
+		} else if (inPackages) {
+			const item = /^\s*-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/.exec(line);
+			if (item) { patterns.push(item[1]); }
+		}
+	}
+	return patterns;
+}
+
+async function readJson(filePath: string): Promise<unknown> {
+	const text = await readText(filePath);
+	if (!text) { return undefined; }
+	try {
+		// tsconfig.json allows comments and trailing commas
+		const json = text
+			.replace(/\\"|"(?:\\"|[^"])*"|(\/\/.*|\/\*[\s\S]*?\*\/)/g, (match, comment) => comment ? '' : match)
+			.replace(/,(\s*[}\]])/g, '$1');
+		return JSON.parse(json);
+	} catch {
+		return undefined;
+	}
+}
+
+/** JSON objects, as opposed to arrays and primitives */
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** `paths` with the targets that are strings; the compiler reports any others */
+function toPathTargets(paths: Record<string, unknown>): Record<string, string[]> {
+	return Object.fromEntries(Object.entries(paths)
+		.filter((entry): entry is [string, unknown[]] => Array.isArray(entry[1]))
+		.map(([pattern, targets]) => [pattern, targets.filter((t): t is string => typeof t === 'string')]));
+}
+
+async function readText(filePath: string): Promise<string | undefined> {
+	try {
+		return new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath)));
+	} catch {
+		return undefined;
+	}
+}
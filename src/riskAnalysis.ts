@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { ImpactAnalysis } from './types';
+import { graphRiskFactors, isExported, rateBlastRadius, scoreNode } from './riskScore';
+import { ParsedModule, parseModule } from './moduleParser';
+import { DependencyIndex } from './dependencyIndex';
+import { definitionOnlyNodes } from './impactEngine';
+import { getGitApi } from './gitChanges';
+import { API } from './typings/git';
+
+// ─── Risk Assessment ─────────────────────────────────────────
+
+const CHURN_WINDOW_MS = 90 * 24 * 60 * 60 * 1000;
+const CHURN_MAX_COMMITS = 50;
+/** Git history barely moves while typing; keep real-time updates from spawning git for every file */
+const CHURN_CACHE_MS = 5 * 60 * 1000;
+
+const churnCache = new Map<string, { commits: number; at: number }>();
+
+/** Scores every node (`node.risk`) and the analysis as a whole (`analysis.risk`) */
+export async function assessRisk(analysis: ImpactAnalysis, index: DependencyIndex | undefined): Promise<void> {
+	const factors = graphRiskFactors(analysis.nodes, analysis.links, !analysis.callDirection);
+	const git = await getGitApi().catch(() => undefined);
+	const modules = new Map<string, Promise<ParsedModule | undefined>>();
+	const snapshot = index?.snapshot();
+
+	const moduleFor = (filePath: string) => {
+		let module = modules.get(filePath);
+		if (!module) {
+			const indexed = snapshot?.modules.get(filePath);
+			module = indexed ? Promise.resolve(indexed) : readModule(filePath);
+			modules.set(filePath, module);
+		}
+		return module;
+	};
+
+	// The declaring file is no dependent of the symbol unless it also references it
+	const definitionOnly = definitionOnlyNodes(analysis.links);
+	const scores: number[] = [];
+	for (const node of analysis.nodes) {
+		if (node.isRoot || definitionOnly.has(node.id)) { continue; }
+
+		const { fanOut, tested } = factors.get(node.id)!;
+		node.risk = scoreNode({
+			fanOut,
+			depth: node.depth,
+			exported: isExported(node, await moduleFor(node.uri)),
+			tested,
+			churn: await countRecentCommits(git, node.uri),
+			isTest: node.type === 'test'
+		});
+		scores.push(node.risk);
+	}
+
+	analysis.risk = rateBlastRadius(scores, analysis.affectedFiles);
+}
+
+async function readModule(filePath: string): Promise<ParsedModule | undefined> {
+	try {
+		return parseModule(new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath))));
+	} catch {
+		return undefined;
+	}
+}
+
+async function countRecentCommits(git: API | undefined, filePath: string): Promise<number> {
+	const cached = churnCache.get(filePath);
+	if (cached && Date.now() - cached.at < CHURN_CACHE_MS) { return cached.commits; }
+
+	const repo = git?.getRepository(vscode.Uri.file(filePath));
+	if (!repo) { return 0; }
+
+	let commits = 0;
+	try {
+		const since = Date.now() - CHURN_WINDOW_MS;
+		const log = await repo.log({ path: filePath, maxEntries: CHURN_MAX_COMMITS });
+		commits = log.filter(c => !c.commitDate || c.commitDate.getTime() >= since).length;
+	} catch {
+		// Untracked files have no history
+	}
+	churnCache.set(filePath, { commits, at: Date.now() });
+	return commits;
+}
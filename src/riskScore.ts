@@ -0,0 +1,108 @@
+import { DependencyLink, DependencyNode, ImpactRisk } from './types';
+import { ParsedModule } from './moduleParser';
+
+// ─── Risk Scoring ────────────────────────────────────────────
+
+export interface NodeRiskFactors {
+	/** Nodes that depend on this one directly */
+	fanOut: number;
+	/** Hops from the analyzed symbol */
+	depth: number;
+	/** Part of the module's exported API, so code outside the workspace may depend on it too */
+	exported: boolean;
+	/** A test among the impacted nodes depends on this node, directly or transitively */
+	tested: boolean;
+	/** Commits that touched the file recently */
+	churn: number;
+	isTest: boolean;
+}
+
+/** Maximum points per factor; they add up to 100 */
+const WEIGHTS = {
+	fanOut: 25,
+	proximity: 20,
+	exported: 20,
+	untested: 20,
+	churn: 15
+};
+const FAN_OUT_CAP = 5;
+const CHURN_CAP = 10;
+
+/** 0–100: how likely a change to the analyzed symbol breaks this location, and how far the breakage spreads */
+export function scoreNode(factors: NodeRiskFactors): number {
+	const proximity = WEIGHTS.proximity / Math.max(factors.depth, 1);
+	const churn = Math.min(factors.churn / CHURN_CAP, 1) * WEIGHTS.churn;
+
+	// A test that breaks is the safety net doing its job; it only needs checking first when close by
+	if (factors.isTest) { return Math.round(proximity + churn); }
+
+	const fanOut = Math.min(factors.fanOut / FAN_OUT_CAP, 1) * WEIGHTS.fanOut;
+	const exported = factors.exported ? WEIGHTS.exported : 0;
+	const untested = factors.tested ? 0 : WEIGHTS.untested;
+	return Math.round(fanOut + proximity + exported + untested + churn);
+}
+
+/**
+ * Overall rating from the riskiest locations (severity) and the number of affected files (breadth).
+ * An analysis with nothing affected scores 0.
+ */
+export function rateBlastRadius(scores: number[], affectedFiles: number): ImpactRisk {
+	const top = [...scores].sort((a, b) => b - a).slice(0, 5);
+	const severity = top.length > 0 ? top.reduce((sum, score) => sum + score, 0) / top.length : 0;
+	const breadth = Math.min(affectedFiles / 20, 1) * 100;
+	const score = Math.round(severity * 0.6 + breadth * 0.4);
+
+	return {
+		score,
+		rating: score >= 75 ? 'critical' : score >= 50 ? 'high' : score >= 25 ? 'medium' : 'low'
+	};
+}
+
+/**
+ * Whether the node is declared on an export line, or is a member of an exported class or
+ * namespace (`UserService.save()`). File and line nodes have no declaration of their own.
+ */
+export function isExported(node: DependencyNode, module: ParsedModule | undefined): boolean {
+	if (!module || node.name === node.fileName) { return false; }
+	if (module.exports.some(e => e.line === node.line - 1)) { return true; }
+
+	const container = node.name.split('.')[0];
+	return container !== node.name && module.exports.some(e => e.local === container);
+}
+
+/**
+ * Fan-out and test coverage of every node, read from the graph's edges. Reference graphs point
+ * from a symbol to its dependents; call graphs point from caller to callee, i.e. the other way.
+ */
+export function graphRiskFactors(
+	nodes: DependencyNode[],
+	links: DependencyLink[],
+	edgesPointToDependents: boolean
+): Map<string, { fanOut: number; tested: boolean }> {
+	const dependents = new Map(nodes.map(n => [n.id, [] as string[]]));
+	for (const link of links) {
+		const [from, to] = edgesPointToDependents ? [link.source, link.target] : [link.target, link.source];
+		dependents.get(from)?.push(to);
+	}
+
+	const types = new Map(nodes.map(n => [n.id, n.type]));
+	const isTested = (start: string) => {
+		const seen = new Set([start]);
+		const queue = [start];
+		for (let i = 0; i < queue.length; i++) {
+			for (const dependent of dependents.get(queue[i]) ?? []) {
+				if (types.get(dependent) === 'test') { return true; }
+				if (!seen.has(dependent)) {
+					seen.add(dependent);
+					queue.push(dependent);
+				}
+			}
+		}
+		return false;
+	};
+
+	return new Map(nodes.map(n => [n.id, {
+		fanOut: new Set(dependents.get(n.id)).size,
+		tested: isTested(n.id)
+	}]));
+}
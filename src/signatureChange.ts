@@ -0,0 +1,179 @@
+// ─── Signature Change ────────────────────────────────────────
+
+export interface Parameter {
+	name: string;
+	/** As written, with type and default value */
+	text: string;
+	/** Optional, defaulted and rest parameters need no argument */
+	optional: boolean;
+}
+
+export interface Signature {
+	name: string;
+	/** Undefined for symbols without a parameter list, e.g. constants and classes */
+	parameters?: Parameter[];
+}
+
+export interface SignatureChange {
+	before: Signature;
+	after: Signature;
+	renamed: boolean;
+	/** Parameters dropped from the list, with their position in the old one */
+	removed: { name: string; index: number }[];
+	/** New parameters every caller has to pass */
+	addedRequired: string[];
+	/** The parameters kept are in another order */
+	reordered: boolean;
+}
+
+const IDENTIFIER = /^\s*([A-Za-z_$][\w$]*)/;
+const PARAMETER_MODIFIERS = /^(?:(?:public|private|protected|readonly|override)\s+)+/;
+
+/**
+ * Walks the text outside string literals, calling `visit` with each character and its bracket
+ * nesting depth. Arrow tokens (`=>`) are skipped so function types do not unbalance `<` and `>`.
+ * Stops early when `visit` returns true and returns that index, or -1.
+ */
+function scan(text: string, visit: (char: string, index: number, depth: number) => boolean | void): number {
+	let depth = 0;
+	let quote: string | undefined;
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quote) {
+			if (char === '\\') { i++; } else if (char === quote) { quote = undefined; }
+			continue;
+		}
+		if (char === '"' || char === '\'' || char === '`') {
+			quote = char;
+			continue;
+		}
+		if (char === '=' && text[i + 1] === '>') {
+			i++;
+			continue;
+		}
+		if (')]}>'.includes(char)) { depth--; }
+		if (visit(char, i, depth)) { return i; }
+		if ('([{<'.includes(char)) { depth++; }
+	}
+	return -1;
+}
+
+/** Splits on separators outside brackets and strings, e.g. the parameters of a list; drops a trailing empty part */
+function splitTopLevel(text: string, separator: string): string[] {
+	const parts: string[] = [];
+	let start = 0;
+	scan(text, (char, index, depth) => {
+		if (char === separator && depth === 0) {
+			parts.push(text.slice(start, index).trim());
+			start = index + 1;
+		}
+	});
+	parts.push(text.slice(start).trim());
+	return parts.length > 1 && parts[parts.length - 1] === '' ? parts.slice(0, -1) : parts.filter(part => part !== '');
+}
+
+/** The text between the parenthesis at `open` and its match, or undefined when it is never closed */
+function parenthesized(text: string, open: number): string | undefined {
+	const close = scan(text.slice(open), (char, _index, depth) => char === ')' && depth === 0);
+	return close === -1 ? undefined : text.slice(open + 1, open + close);
+}
+
+function parseParameter(text: string): Parameter {
+	const declaration = text.replace(PARAMETER_MODIFIERS, '');
+	const rest = declaration.startsWith('...');
+	const binding = declaration.replace(/^\.\.\./, '');
+	// Destructured parameters have no name of their own; the pattern stands in for it
+	const name = IDENTIFIER.exec(binding)?.[1] ?? splitTopLevel(splitTopLevel(binding, ':')[0], '=')[0];
+	const optional = rest
+		|| /^\s*[A-Za-z_$][\w$]*\s*\?/.test(binding)
+		|| splitTopLevel(binding, '=').length > 1;
+	return { name, text, optional };
+}
+
+/**
+ * Reads a signature from text starting at the symbol's name, as declared (`parseDate(value:
+ * string, format = 'iso')`, `parseDate = async (value) =>`) or as typed by the user. A `{` or `;`
+ * before any `(` means the symbol takes no parameters.
+ */
+export function parseSignature(text: string): Signature | undefined {
+	const match = IDENTIFIER.exec(text);
+	if (!match) { return undefined; }
+
+	const afterName = match[0].length;
+	const open = scan(text.slice(afterName), (char, _index, depth) => depth === 0 && '({;'.includes(char));
+	if (open === -1 || text[afterName + open] !== '(') {
+		return { name: match[1] };
+	}
+
+	const list = parenthesized(text, afterName + open);
+	if (list === undefined) { return undefined; }
+	return { name: match[1], parameters: splitTopLevel(list, ',').map(parseParameter) };
+}
+
+/** e.g. `formatDate(value: Date, locale?: string)` */
+export function formatSignature(signature: Signature): string {
+	return signature.parameters
+		? `${signature.name}(${signature.parameters.map(p => p.text).join(', ')})`
+		: signature.name;
+}
+
+/**
+ * What changes between two signatures. Parameters are matched by name; a signature typed
+ * without a parameter list leaves the parameters as they were.
+ */
+export function compareSignatures(before: Signature, after: Signature): SignatureChange {
+	const change: SignatureChange = {
+		before,
+		after,
+		renamed: before.name !== after.name,
+		removed: [],
+		addedRequired: [],
+		reordered: false
+	};
+	if (!before.parameters || !after.parameters) { return change; }
+
+	const beforeNames = before.parameters.map(p => p.name);
+	const afterNames = after.parameters.map(p => p.name);
+	change.removed = beforeNames
+		.map((name, index) => ({ name, index }))
+		.filter(p => !afterNames.includes(p.name));
+	change.addedRequired = after.parameters
+		.filter(p => !p.optional && !beforeNames.includes(p.name))
+		.map(p => p.name);
+
+	const kept = beforeNames.filter(name => afterNames.includes(name));
+	change.reordered = kept.join(',') !== afterNames.filter(name => beforeNames.includes(name)).join(',');
+	return change;
+}
+
+export function isSignatureChanged(change: SignatureChange): boolean {
+	return formatSignature(change.before) !== formatSignature(change.after);
+}
+
+/**
+ * Counts the arguments of a call, given the text right after the callee's name at a reference.
+ * Undefined when the reference is not called there, e.g. imported or passed as a callback.
+ */
+export function countArguments(textAfterName: string): number | undefined {
+	const match = /^\s*(?:\?\.\s*)?(?:<[^()]*>\s*)?\(/.exec(textAfterName);
+	if (!match) { return undefined; }
+
+	const list = parenthesized(textAfterName, match[0].length - 1);
+	return list === undefined ? undefined : splitTopLevel(list, ',').length;
+}
+
+/** Why a call with `argumentCount` arguments breaks under the change; empty when it keeps working */
+export function callSiteProblems(change: SignatureChange, argumentCount: number | undefined): string[] {
+	if (argumentCount === undefined) { return []; }
+
+	const problems = change.removed
+		.filter(p => p.index < argumentCount)
+		.map(p => `passes the removed parameter '${p.name}'`);
+	if (change.addedRequired.length > 0) {
+		problems.push(`needs an argument for ${change.addedRequired.map(name => `'${name}'`).join(', ')}`);
+	}
+	if (change.reordered && argumentCount > 1) {
+		problems.push('passes its arguments in the old order');
+	}
+	return problems;
+}
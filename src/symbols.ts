@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { DependencyNode } from './types';
+
+// ─── Symbol Resolution ───────────────────────────────────────
+
+export type DocumentSymbolCache = Map<string, Thenable<vscode.DocumentSymbol[]>>;
+
+export const CALLABLE_KINDS = new Set([
+	vscode.SymbolKind.Function,
+	vscode.SymbolKind.Method,
+	vscode.SymbolKind.Constructor
+]);
+
+const VARIABLE_KINDS = new Set([
+	vscode.SymbolKind.Variable,
+	vscode.SymbolKind.Constant,
+	vscode.SymbolKind.Field,
+	vscode.SymbolKind.Property
+]);
+
+export function getDocumentSymbols(uri: vscode.Uri, cache: DocumentSymbolCache): Thenable<vscode.DocumentSymbol[]> {
+	const key = uri.toString();
+	let symbols = cache.get(key);
+	if (!symbols) {
+		symbols = vscode.commands.executeCommand<vscode.DocumentSymbol[]>('vscode.executeDocumentSymbolProvider', uri)
+			.then(result => result ?? [], () => []);
+		cache.set(key, symbols);
+	}
+	return symbols;
+}
+
+export interface EnclosingSymbol {
+	symbol: vscode.DocumentSymbol;
+	/** Outermost-first chain of symbols containing `symbol` */
+	containers: vscode.DocumentSymbol[];
+}
+
+/** Innermost function, class or top-level declaration containing the location (locals are skipped) */
+export async function findEnclosingSymbol(
+	location: vscode.Location,
+	cache: DocumentSymbolCache
+): Promise<EnclosingSymbol | undefined> {
+	const symbols = await getDocumentSymbols(location.uri, cache);
+	return findInnermostSymbol(symbols, location.range.start, []);
+}
+
+function findInnermostSymbol(
+	symbols: vscode.DocumentSymbol[],
+	position: vscode.Position,
+	containers: vscode.DocumentSymbol[]
+): EnclosingSymbol | undefined {
+	for (const symbol of symbols) {
+		if (!symbol.range?.contains(position)) { continue; }
+
+		const inner = findInnermostSymbol(symbol.children ?? [], position, [...containers, symbol]);
+		if (inner) { return inner; }
+
+		const isLocal = VARIABLE_KINDS.has(symbol.kind) && containers.some(c => CALLABLE_KINDS.has(c.kind));
+		return isLocal ? undefined : { symbol, containers };
+	}
+	return undefined;
+}
+
+/** Display name such as `UserService.save()` */
+export function qualifiedSymbolName({ symbol, containers }: EnclosingSymbol): string {
+	const suffix = CALLABLE_KINDS.has(symbol.kind) ? '()' : '';
+	return [...containers, symbol].map(s => s.name).join('.') + suffix;
+}
+
+export function symbolKey(uri: vscode.Uri, symbol: vscode.DocumentSymbol): string {
+	const { line, character } = symbol.selectionRange.start;
+	return `${uri.toString()}#${line}:${character}`;
+}
+
+export function symbolKindToNodeType(kind: vscode.SymbolKind): DependencyNode['type'] {
+	switch (kind) {
+		case vscode.SymbolKind.Class:
+		case vscode.SymbolKind.Struct:
+			return 'class';
+		case vscode.SymbolKind.Interface:
+		case vscode.SymbolKind.TypeParameter:
+		case vscode.SymbolKind.Enum:
+			return 'type';
+		case vscode.SymbolKind.Variable:
+		case vscode.SymbolKind.Constant:
+		case vscode.SymbolKind.Field:
+		case vscode.SymbolKind.Property:
+			return 'variable';
+		default:
+			return 'function';
+	}
+}
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { DependencyNode, ImpactAnalysis } from '../types';
+import { compareAnalyses } from '../analysisDiff';
+import { toMarkdown } from '../analysisExport';
+
+const node = (name: string, file: string, line = 1, isRoot = false): DependencyNode => ({
+	id: isRoot ? 'root' : `sym:/src/${file}#${name}`,
+	name, fileName: file, uri: `/src/${file}`, line, type: 'function', references: 1, isRoot, depth: isRoot ? 0 : 1
+});
+
+const analysis = (nodes: DependencyNode[], links: [string, string][]): ImpactAnalysis => ({
+	symbol: 'saveUser',
+	sourceFile: 'users.ts',
+	affectedFiles: new Set(nodes.map(n => n.uri)).size,
+	totalReferences: nodes.length - 1,
+	maxDepth: 1,
+	nodes,
+	links: links.map(([source, target]) => ({ source, target, type: 'uses' }))
+});
+
+suite('Analysis Diff Test Suite', () => {
+	const submit = 'sym:/src/form.ts#submit()';
+	const legacySave = 'sym:/src/legacy.ts#legacySave()';
+	const importUsers = 'sym:/src/import.ts#importUsers()';
+	const before = analysis(
+		[node('saveUser', 'users.ts', 1, true), node('submit()', 'form.ts', 4), node('legacySave()', 'legacy.ts')],
+		[['root', submit], ['root', legacySave]]
+	);
+	// Lines shifted and nodes were visited in a different order, but submit() is the same node
+	const after = analysis(
+		[node('saveUser', 'users.ts', 1, true), node('importUsers()', 'import.ts'), node('submit()', 'form.ts', 9)],
+		[['root', importUsers], ['root', submit]]
+	);
+
+	test('Marks nodes added, removed or unchanged by id, not position or line', () => {
+		const diff = compareAnalyses(before, after, { before: 'Monday', after: 'Tuesday' });
+		assert.deepStrictEqual(diff.nodes.map(n => [n.id, n.name, n.diff]), [
+			['root', 'saveUser', 'unchanged'],
+			[importUsers, 'importUsers()', 'added'],
+			[submit, 'submit()', 'unchanged'],
+			[`removed-${legacySave}`, 'legacySave()', 'removed']
+		]);
+		assert.deepStrictEqual(diff.comparison, { before: 'Monday', after: 'Tuesday', added: 1, removed: 1 });
+	});
+
+	test('Reattaches removed links to the combined graph', () => {
+		const diff = compareAnalyses(before, after, { before: 'Monday', after: 'Tuesday' });
+		assert.deepStrictEqual(diff.links.map(l => [l.source, l.target, l.diff]), [
+			['root', importUsers, 'added'],
+			['root', submit, 'unchanged'],
+			['root', `removed-${legacySave}`, 'removed']
+		]);
+	});
+
+	test('Reports nothing changed for identical analyses', () => {
+		const diff = compareAnalyses(after, after, { before: 'a', after: 'b' });
+		assert.ok(diff.nodes.every(n => n.diff === 'unchanged'));
+		assert.deepStrictEqual([diff.comparison!.added, diff.comparison!.removed], [0, 0]);
+	});
+
+	test('Lists newly and no longer impacted locations in the Markdown report', () => {
+		const markdown = toMarkdown(compareAnalyses(before, after, { before: 'Monday', after: 'Tuesday' }));
+		assert.ok(markdown.includes('### Changes since Monday'));
+		assert.ok(markdown.includes('- Newly impacted: `importUsers()` (`/src/import.ts`)'));
+		assert.ok(markdown.includes('- No longer impacted: `legacySave()` (`/src/legacy.ts`)'));
+		assert.ok(!markdown.includes('`/src/legacy.ts`: '));
+	});
+});
@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import { ImpactAnalysis } from '../types';
+import { toDot, toJson, toMarkdown, toMermaid } from '../analysisExport';
+
+const ANALYSIS: ImpactAnalysis = {
+	symbol: 'saveUser',
+	sourceFile: 'users.ts',
+	affectedFiles: 2,
+	totalReferences: 3,
+	maxDepth: 1,
+	nodes: [
+		{ id: 'root', name: 'saveUser', fileName: 'users.ts', uri: '/repo/src/users.ts', line: 4, type: 'symbol', references: 3, isRoot: true, depth: 0 },
+		{ id: 'sym-0', name: 'UserForm.submit()', fileName: 'form.tsx', uri: '/repo/src/form.tsx', line: 12, type: 'function', references: 1, isRoot: false, depth: 1, risk: 64 },
+		{ id: 'sym-1', name: 'saves "a" user', fileName: 'users.test.ts', uri: '/repo/src/users.test.ts', line: 8, type: 'test', references: 2, isRoot: false, depth: 1, risk: 20 }
+	],
+	links: [
+		{ source: 'root', target: 'sym-0', type: 'uses' },
+		{ source: 'root', target: 'sym-1', type: 'tests', cycle: true }
+	],
+	risk: { score: 41, rating: 'medium' }
+};
+
+const relative = (filePath: string) => filePath.replace('/repo/', '');
+
+suite('Analysis Export Test Suite', () => {
+	test('Exports JSON with a stable schema', () => {
+		const json = JSON.parse(toJson(ANALYSIS, relative));
+		assert.strictEqual(json.schemaVersion, 1);
+		assert.strictEqual(json.kind, 'references');
+		assert.deepStrictEqual(json.summary, { affectedFiles: 2, totalReferences: 3, maxDepth: 1, nodes: 3, blastRadius: { score: 41, rating: 'medium' } });
+		assert.deepStrictEqual(json.nodes[1], {
+			id: 'sym-0', name: 'UserForm.submit()', type: 'function', file: 'src/form.tsx', line: 12, depth: 1, references: 1, isRoot: false, risk: 64
+		});
+		assert.deepStrictEqual(json.links[1], { source: 'root', target: 'sym-1', type: 'tests', cycle: true });
+	});
+
+	test('Exports a Markdown report', () => {
+		const markdown = toMarkdown(ANALYSIS, relative);
+		assert.ok(markdown.startsWith('## Impact of `saveUser`\n'));
+		assert.ok(markdown.includes('| 2 | 3 | 3 | 1 | Medium (41/100) |'));
+		assert.ok(markdown.includes('| 64 | UserForm.submit() — `src/form.tsx:12` | 1 |'));
+		assert.ok(markdown.includes('- `src/users.test.ts` _(tests)_: `saves "a" user` (L8)'));
+		assert.ok(markdown.includes('- 1 edge on dependency cycles'));
+	});
+
+	test('Exports Mermaid with escaped labels and highlighted cycles', () => {
+		const mermaid = toMermaid(ANALYSIS);
+		assert.ok(mermaid.startsWith('graph LR\n'));
+		assert.ok(mermaid.includes('\tn0(("saveUser"))'));
+		assert.ok(mermaid.includes('\tn2["saves #quot;a#quot; user"]'));
+		assert.ok(mermaid.includes('\tn0 -->|tests| n2'));
+		assert.ok(mermaid.includes('\tlinkStyle 1 stroke:#f44336,stroke-width:2px'));
+	});
+
+	test('Exports Graphviz DOT with quoted identifiers', () => {
+		const dot = toDot(ANALYSIS);
+		assert.ok(dot.startsWith('digraph "saveUser" {\n'));
+		assert.ok(dot.includes('\t"sym-1" [label="saves \\"a\\" user"];'));
+		assert.ok(dot.includes('\t"root" -> "sym-1" [label="tests", color="#f44336"];'));
+		assert.ok(dot.trimEnd().endsWith('}'));
+	});
+
+	test('Lists affected packages in the Markdown report', () => {
+		const markdown = toMarkdown({
+			...ANALYSIS,
+			packages: [
+				{ name: '@acme/web', dir: '/repo/apps/web', nodes: 2, files: 1 },
+				{ name: '@acme/core', dir: '/repo/packages/core', nodes: 1, files: 1 }
+			],
+			packageLinks: [{ source: '@acme/core', target: '@acme/web', links: 2 }]
+		}, relative);
+		assert.ok(markdown.includes('### Affected packages\n\nAffects 2 packages:\n'));
+		assert.ok(markdown.includes('- `@acme/web`: 2 locations in 1 file, via `@acme/core`\n'));
+		assert.ok(markdown.includes('- `@acme/core`: 1 location in 1 file\n'));
+	});
+
+	test('Lists possible references apart from the affected files', () => {
+		const markdown = toMarkdown({
+			...ANALYSIS,
+			nodes: [...ANALYSIS.nodes, {
+				id: 'text:/repo/config/di.json:3', name: 'L3', fileName: 'config/di.json', uri: '/repo/config/di.json', line: 3,
+				type: 'possible', references: 1, isRoot: false, depth: 1, excerpt: '"provide": "saveUser",'
+			}]
+		}, relative);
+		assert.ok(!markdown.includes('- `config/di.json`'));
+		assert.ok(markdown.includes('### Possible references\n\nFound by text search; check whether they refer to `saveUser`:\n\n- `config/di.json:3`: `"provide": "saveUser",`\n'));
+	});
+
+	test('Lists the locations a refactor leaves to do by hand', () => {
+		const [root, form, test] = ANALYSIS.nodes;
+		const markdown = toMarkdown({
+			...ANALYSIS,
+			nodes: [root, { ...form, refactor: 'manual', refactorNotes: ['passes the removed parameter \'notify\''] }, { ...test, refactor: 'automatic' }],
+			refactor: { signature: 'storeUser(user)', edits: 3, files: 2, automatic: 1, manual: 1 }
+		}, relative);
+		assert.ok(markdown.includes('### Preview of `storeUser(user)`\n\n- Updated automatically: 1 location, by 3 edits in 2 files\n- Needs manual attention:\n'));
+		assert.ok(markdown.includes('  - `UserForm.submit()` — `src/form.tsx:12`: passes the removed parameter \'notify\'\n'));
+	});
+});
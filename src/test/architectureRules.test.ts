@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { describeViolation, findViolatedRule, globToRegExp, parseArchitectureRules } from '../architectureRules';
+
+suite('Architecture Rules Test Suite', () => {
+	test('Converts globs to regular expressions', () => {
+		assert.ok(globToRegExp('src/ui/**').test('src/ui/button.tsx'));
+		assert.ok(globToRegExp('src/ui/**').test('src/ui/forms/input.ts'));
+		assert.ok(!globToRegExp('src/ui/**').test('src/uikit/button.ts'));
+		assert.ok(globToRegExp('**/*.{ts,tsx}').test('main.ts'));
+		assert.ok(globToRegExp('src/*/index.ts').test('src/db/index.ts'));
+		assert.ok(!globToRegExp('src/*/index.ts').test('src/db/users/index.ts'));
+	});
+
+	test('Treats a plain path as a file or folder', () => {
+		const matcher = globToRegExp('./src/db/');
+		assert.ok(matcher.test('src/db'));
+		assert.ok(matcher.test('src/db/users.ts'));
+		assert.ok(!matcher.test('src/dbx/users.ts'));
+	});
+
+	test('Finds the rule an import violates', () => {
+		const rules = parseArchitectureRules({
+			rules: [{ from: 'src/ui/**', disallow: ['src/db/**'], message: 'UI goes through services' }]
+		});
+
+		const rule = findViolatedRule(rules, 'src/ui/list.ts', 'src/db/users.ts');
+		assert.ok(rule);
+		assert.strictEqual(rule.severity, 'warning');
+		assert.strictEqual(
+			describeViolation(rule, 'src/ui/list.ts', 'src/db/users.ts'),
+			'UI goes through services: src/ui/list.ts must not import src/db/users.ts (src/db/**)'
+		);
+		assert.strictEqual(findViolatedRule(rules, 'src/services/users.ts', 'src/db/users.ts'), undefined);
+	});
+
+	test('Allows imports within a disallowed area', () => {
+		const rules = parseArchitectureRules({ rules: [{ from: 'src/**', disallow: 'src/legacy/**' }] });
+		assert.ok(findViolatedRule(rules, 'src/app.ts', 'src/legacy/old.ts'));
+		assert.strictEqual(findViolatedRule(rules, 'src/legacy/a.ts', 'src/legacy/b.ts'), undefined);
+	});
+
+	test('Rejects malformed rules', () => {
+		assert.throws(() => parseArchitectureRules({ rules: {} }), /"rules" must be an array/);
+		assert.throws(() => parseArchitectureRules({ rules: ['src/**'] }), /rules\[0\] must be an object/);
+		assert.throws(() => parseArchitectureRules({ rules: [{ from: 'src/**' }] }), /rules\[0\]\.disallow/);
+		assert.throws(() => parseArchitectureRules({ rules: [{ from: 'a', disallow: 'b', severity: 'fatal' }] }), /severity/);
+	});
+});
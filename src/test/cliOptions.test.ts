@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { ImpactAnalysis } from '../types';
+import { findExceededThresholds, parseCliOptions } from '../cli/options';
+
+const analysis = (affectedFiles: number, risk: ImpactAnalysis['risk']): ImpactAnalysis => ({
+	symbol: 'saveUser', sourceFile: 'users.ts', affectedFiles, totalReferences: 1, maxDepth: 1, nodes: [], links: [], risk
+});
+
+suite('CLI Options Test Suite', () => {
+	test('Parses targets and applies defaults', () => {
+		assert.deepStrictEqual(parseCliOptions(['--symbol', 'UserService.save']), {
+			target: { kind: 'symbol', name: 'UserService.save', file: undefined },
+			project: '.',
+			format: 'markdown',
+			depth: 2,
+			failOn: undefined,
+			maxFiles: undefined,
+			output: undefined
+		});
+		assert.deepStrictEqual(parseCliOptions(['--at', 'C:\\repo\\src\\a.ts:12:5'])!.target, { kind: 'position', file: 'C:\\repo\\src\\a.ts', line: 12, character: 5 });
+		assert.deepStrictEqual(parseCliOptions(['--at', 'src/a.ts:3'])!.target, { kind: 'position', file: 'src/a.ts', line: 3 });
+		assert.deepStrictEqual(parseCliOptions(['--diff', 'origin/main...HEAD', '--format', 'json'])!.target, { kind: 'diff', range: 'origin/main...HEAD' });
+		assert.strictEqual(parseCliOptions(['--help']), undefined);
+	});
+
+	test('Rejects ambiguous or invalid arguments', () => {
+		assert.throws(() => parseCliOptions([]), /exactly one/);
+		assert.throws(() => parseCliOptions(['--symbol', 'a', '--diff', 'main']), /exactly one/);
+		assert.throws(() => parseCliOptions(['--diff', 'main', '--file', 'a.ts']), /--file only applies/);
+		assert.throws(() => parseCliOptions(['--symbol', 'a', '--depth', '9']), /between 1 and 5/);
+		assert.throws(() => parseCliOptions(['--symbol', 'a', '--fail-on', 'severe']), /Unknown rating/);
+		assert.throws(() => parseCliOptions(['--at', 'src/a.ts']), /file:line/);
+	});
+
+	test('Reports exceeded thresholds', () => {
+		const options = parseCliOptions(['--diff', 'main', '--fail-on', 'high', '--max-files', '10'])!;
+		assert.deepStrictEqual(findExceededThresholds(analysis(3, { score: 60, rating: 'high' }), options), [
+			'Blast radius is high (60/100), failing on high'
+		]);
+		assert.deepStrictEqual(findExceededThresholds(analysis(11, { score: 30, rating: 'medium' }), options), [
+			'11 files affected, more than the allowed 10'
+		]);
+		assert.deepStrictEqual(findExceededThresholds(analysis(10, { score: 74, rating: 'high' }), parseCliOptions(['--diff', 'main', '--fail-on', 'critical'])!), []);
+	});
+});
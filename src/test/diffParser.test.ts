@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { parseChangedLines } from '../diffParser';
+
+suite('Diff Parser Test Suite', () => {
+	test('Reports added and modified lines of the new file', () => {
+		const diff = [
+			'diff --git a/src/a.ts b/src/a.ts',
+			'--- a/src/a.ts',
+			'+++ b/src/a.ts',
+			'@@ -1,4 +1,5 @@',
+			' export function a() {',
+			'-	return 1;',
+			'+	return 2;',
+			'+	// added',
+			' }',
+			' ',
+		].join('\n');
+		assert.deepStrictEqual(parseChangedLines(diff), [1, 2]);
+	});
+
+	test('Maps a pure deletion onto the line it collapsed to', () => {
+		const diff = [
+			'@@ -10,3 +10,2 @@',
+			' keep();',
+			'-removed();',
+			' keep();',
+		].join('\n');
+		assert.deepStrictEqual(parseChangedLines(diff), [10]);
+	});
+
+	test('Handles several hunks and ignores "no newline" markers', () => {
+		const diff = [
+			'@@ -1 +1 @@',
+			'-a',
+			'+b',
+			'\\ No newline at end of file',
+			'@@ -20,0 +21,1 @@',
+			'+c',
+		].join('\n');
+		assert.deepStrictEqual(parseChangedLines(diff), [0, 20]);
+	});
+
+	test('Returns nothing for an empty diff', () => {
+		assert.deepStrictEqual(parseChangedLines(''), []);
+	});
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { classifyExportUsage, isTestFile } from '../exportUsage';
+
+const DECLARING = '/repo/src/dates.ts';
+
+suite('Export Usage Test Suite', () => {
+	test('Reports exports no other file references as unused', () => {
+		assert.deepStrictEqual(classifyExportUsage(DECLARING, []), { usage: 'unused', localReferences: 0, testFiles: [] });
+		assert.deepStrictEqual(classifyExportUsage(DECLARING, [DECLARING, DECLARING]), { usage: 'unused', localReferences: 2, testFiles: [] });
+	});
+
+	test('Reports exports only tests reference', () => {
+		assert.deepStrictEqual(
+			classifyExportUsage(DECLARING, ['/repo/src/dates.test.ts', DECLARING, '/repo/src/a.spec.ts', '/repo/src/dates.test.ts']),
+			{ usage: 'testOnly', localReferences: 1, testFiles: ['/repo/src/a.spec.ts', '/repo/src/dates.test.ts'] }
+		);
+	});
+
+	test('Leaves exports used by production code alone', () => {
+		assert.strictEqual(classifyExportUsage(DECLARING, ['/repo/src/dates.test.ts', '/repo/src/app.ts']), undefined);
+	});
+
+	test('Recognizes test files by name', () => {
+		assert.ok(isTestFile('/repo/src/dates.test.ts'));
+		assert.ok(isTestFile('C:\\repo\\src\\Dates.Spec.tsx'));
+		assert.ok(!isTestFile('/repo/test/helpers.ts'));
+	});
+});
@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { findCyclicComponents, stronglyConnectedComponents } from '../graphAlgorithms';
+
+const edges = (...pairs: string[]) => pairs.map(pair => {
+	const [source, target] = pair.split('>');
+	return { source, target };
+});
+
+suite('Graph Algorithms Test Suite', () => {
+	test('Finds strongly connected components', () => {
+		const components = stronglyConnectedComponents(
+			['a', 'b', 'c', 'd'],
+			edges('a>b', 'b>c', 'c>a', 'c>d')
+		);
+		assert.deepStrictEqual(components.map(c => [...c].sort()), [['d'], ['a', 'b', 'c']]);
+	});
+
+	test('Reports no cycles for an acyclic graph', () => {
+		assert.deepStrictEqual(findCyclicComponents(['a', 'b', 'c'], edges('a>b', 'b>c', 'a>c')), []);
+	});
+
+	test('Reports a cycle starting at its earliest node', () => {
+		const [component] = findCyclicComponents(['a', 'b', 'c'], edges('b>c', 'c>a', 'a>b'));
+		assert.deepStrictEqual(component.nodes, ['a', 'b', 'c']);
+		assert.deepStrictEqual(component.cycles, [['a', 'b', 'c']]);
+	});
+
+	test('Reports each distinct cycle of a component', () => {
+		const [component] = findCyclicComponents(['a', 'b', 'c'], edges('a>b', 'b>a', 'b>c', 'c>b'));
+		assert.deepStrictEqual(component.cycles, [['a', 'b'], ['b', 'c']]);
+	});
+
+	test('Treats a self edge as a cycle', () => {
+		const components = findCyclicComponents(['a', 'b'], edges('a>a', 'a>b'));
+		assert.deepStrictEqual(components, [{ nodes: ['a'], cycles: [['a']] }]);
+	});
+
+	test('Handles long chains without recursion', () => {
+		const nodes = Array.from({ length: 20000 }, (_, i) => `n${i}`);
+		const chain = nodes.slice(1).map((node, i) => ({ source: nodes[i], target: node }));
+		const [component] = findCyclicComponents(nodes, [...chain, { source: nodes[nodes.length - 1], target: nodes[0] }]);
+		assert.strictEqual(component.nodes.length, nodes.length);
+	});
+});
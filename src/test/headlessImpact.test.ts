@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TsProject, loadTypeScript } from '../cli/tsProject';
+import { analyzeDeclaration, assessHeadlessRisk } from '../cli/headlessImpact';
+
+const FILES: Record<string, string> = {
+	'tsconfig.json': '{ "compilerOptions": { "strict": true }, "include": ["src"] }',
+	'src/users.ts': [
+		'export class UserService {',
+		'	save(name: string) {',
+		'		const trimmed = name.trim();',
+		'		return trimmed;',
+		'	}',
+		'}',
+		'export const saveUser = (name: string) => new UserService().save(name);',
+	].join('\n'),
+	'src/form.ts': [
+		'import { saveUser } from \'./users\';',
+		'export function submit() {',
+		'	return saveUser(\'x\');',
+		'}',
+	].join('\n'),
+	'src/form.test.ts': [
+		'import { submit } from \'./form\';',
+		'describe(\'form\', () => { it(\'submits\', () => { submit(); }); });',
+	].join('\n'),
+	'src/unused.ts': [
+		'export function unused() {',
+		'	return 1;',
+		'}',
+	].join('\n')
+};
+
+suite('Headless Impact Test Suite', () => {
+	let dir: string;
+	let project: TsProject;
+
+	suiteSetup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codeweb-'));
+		for (const [file, text] of Object.entries(FILES)) {
+			fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+			fs.writeFileSync(path.join(dir, file), text);
+		}
+		project = TsProject.open(loadTypeScript(dir), dir);
+	});
+
+	suiteTeardown(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+	test('Finds declarations by plain and qualified name', () => {
+		assert.deepStrictEqual(project.findDeclarations('UserService.save').map(d => [d.name, d.line]), [['UserService.save()', 1]]);
+		assert.deepStrictEqual(project.findDeclarations('saveUser').map(d => [d.name, d.type]), [['saveUser', 'variable']]);
+		assert.deepStrictEqual(project.findDeclarations('trimmed'), []);
+	});
+
+	test('Follows references transitively to the tests', async () => {
+		const [declaration] = project.findDeclarations('UserService.save');
+		const analysis = await analyzeDeclaration(project, declaration, 3, dir);
+		const names = analysis.nodes.filter(n => n.id.startsWith('sym:')).map(n => [n.name, n.depth, n.type]);
+
+		assert.deepStrictEqual(names, [
+			['saveUser', 1, 'variable'],
+			['submit()', 2, 'function'],
+			['describe(\'form\') callback.it(\'submits\') callback()', 3, 'test']
+		]);
+		assert.strictEqual(analysis.affectedFiles, 3);
+		assert.strictEqual(analysis.maxDepth, 3);
+		assert.ok(analysis.nodes.some(n => n.id === `file:${project.normalize(path.join(dir, 'src/users.ts'))}`));
+		assert.strictEqual(analysis.nodes.find(n => n.name === 'submit()')?.fileName, 'src/form.ts');
+	});
+
+	test('Leaves the declaring file out of an unused export\'s impact', async () => {
+		const [declaration] = project.findDeclarations('unused');
+		const analysis = await analyzeDeclaration(project, declaration, 3, dir);
+		await assessHeadlessRisk(analysis, project, undefined);
+
+		assert.strictEqual(analysis.affectedFiles, 0);
+		assert.strictEqual(analysis.maxDepth, 0);
+		assert.deepStrictEqual(analysis.risk, { score: 0, rating: 'low' });
+		assert.ok(analysis.nodes.every(n => n.risk === undefined));
+	});
+
+	test('Resolves the declaration under a position', () => {
+		const fileName = project.normalize(path.join(dir, 'src/form.ts'));
+		const declaration = project.findDefinition(fileName, project.offsetAt(fileName, 2, 9));
+		assert.strictEqual(declaration?.name, 'saveUser');
+		assert.strictEqual(project.declarationOnLine(fileName, 1)?.name, 'submit()');
+	});
+});
@@ -0,0 +1,139 @@
+import * as assert from 'assert';
+import { parseModule } from '../moduleParser';
+
+suite('Module Parser Test Suite', () => {
+	test('Parses default, named and namespace imports', () => {
+		const { imports } = parseModule([
+			"import React, { useState as useLocal, type FC } from 'react';",
+			"import * as path from 'path';",
+			"import './styles.css';",
+		].join('\n'));
+
+		assert.deepStrictEqual(imports, [
+			{
+				specifier: 'react',
+				line: 0,
+				bindings: [
+					{ imported: 'useState', local: 'useLocal' },
+					{ imported: 'FC', local: 'FC' },
+					{ imported: 'default', local: 'React' },
+				],
+				reexport: false,
+				typeOnly: false,
+			},
+			{ specifier: 'path', line: 1, bindings: [{ imported: '*', local: 'path' }], reexport: false, typeOnly: false },
+			{ specifier: './styles.css', line: 2, bindings: [], reexport: false, typeOnly: false },
+		]);
+	});
+
+	test('Flags imports and re-exports of types only', () => {
+		const { imports } = parseModule([
+			"import type { User } from './user';",
+			"import { type Role, type Scope as S } from './role';",
+			"import { type Config, load } from './config';",
+			"export type { Theme } from './theme';",
+			"export type * from './types';",
+			"export * from './values';",
+		].join('\n'));
+
+		assert.deepStrictEqual(imports.map(i => [i.specifier, i.typeOnly]), [
+			['./user', true],
+			['./role', true],
+			['./config', false],
+			['./theme', true],
+			['./types', true],
+			['./values', false],
+		]);
+		assert.deepStrictEqual(imports[1].bindings, [{ imported: 'Role', local: 'Role' }, { imported: 'Scope', local: 'S' }]);
+	});
+
+	test('Parses require calls, dynamic imports and re-exports', () => {
+		const { imports } = parseModule([
+			"const fs = require('fs');",
+			"const { join, resolve: res } = require('path');",
+			"export { save, load as read } from './user';",
+			"export * from './types';",
+			"const lazy = () => import('./lazy');",
+		].join('\n'));
+
+		assert.deepStrictEqual(imports.map(i => [i.specifier, i.reexport, i.bindings]), [
+			['fs', false, [{ imported: '*', local: 'fs' }]],
+			['path', false, [{ imported: 'join', local: 'join' }, { imported: 'resolve', local: 'res' }]],
+			['./user', true, [{ imported: 'save', local: 'save' }, { imported: 'load', local: 'read' }]],
+			['./types', true, [{ imported: '*', local: '*' }]],
+			['./lazy', false, []],
+		]);
+	});
+
+	test('Ignores imports inside comments', () => {
+		const { imports } = parseModule([
+			"// import { a } from './a';",
+			"/* import b from './b'; */",
+			"const url = 'http://example.com'; import c from './c';",
+		].join('\n'));
+
+		assert.deepStrictEqual(imports.map(i => i.specifier), ['./c']);
+	});
+
+	test('Finds exported declarations with their positions', () => {
+		const { exports } = parseModule([
+			'export async function save() {}',
+			'export default class UserService {}',
+			'export const LIMIT = 10;',
+			'export interface User {}',
+			'function helper() {}',
+			'export { helper as assist };',
+		].join('\n'));
+
+		assert.deepStrictEqual(exports, [
+			{ name: 'save', local: 'save', line: 0, character: 22 },
+			{ name: 'default', local: 'UserService', line: 1, character: 21 },
+			{ name: 'LIMIT', local: 'LIMIT', line: 2, character: 13 },
+			{ name: 'User', local: 'User', line: 3, character: 17 },
+			{ name: 'assist', local: 'helper', line: 5, character: 9 },
+		]);
+	});
+
+	test('Records occurrences outside comments and strings', () => {
+		const { occurrences } = parseModule([
+			"import { save } from './user';",
+			"import * as api from './api';",
+			'save(); // save again',
+			"const label = 'save';",
+			'api.load(); user.save();',
+		].join('\n'));
+
+		assert.deepStrictEqual(occurrences.save, [[0, 9], [2, 0]]);
+		assert.deepStrictEqual(occurrences['api.load'], [[4, 4]]);
+	});
+
+	test('Records occurrences inside template literal expressions', () => {
+		const { occurrences } = parseModule([
+			"import { formatDate } from './dates';",
+			'const text = `formatDate: ${formatDate(d)} and ${`${formatDate(e)}`}`;',
+		].join('\n'));
+
+		assert.deepStrictEqual(occurrences.formatDate, [[0, 9], [1, 28], [1, 52]]);
+	});
+
+	test('Skips object keys', () => {
+		const { occurrences, shadowed } = parseModule([
+			"import { formatDate } from './dates';",
+			'const options = { formatDate: 1, other: formatDate };',
+		].join('\n'));
+
+		assert.deepStrictEqual(occurrences.formatDate, [[0, 9], [1, 40]]);
+		assert.deepStrictEqual(shadowed, []);
+	});
+
+	test('Reports names shadowed by parameters and locals', () => {
+		const parse = (line: string) => parseModule(`import { formatDate } from './dates';\n${line}`).shadowed;
+
+		assert.deepStrictEqual(parse('function f(formatDate) { return formatDate; }'), ['formatDate']);
+		assert.deepStrictEqual(parse('const g = (a, formatDate: string) => formatDate;'), ['formatDate']);
+		assert.deepStrictEqual(parse('list.map(formatDate => formatDate);'), ['formatDate']);
+		assert.deepStrictEqual(parse('{ const formatDate = 1; }'), ['formatDate']);
+		assert.deepStrictEqual(parse('if (formatDate) { call(formatDate); } function h(a = formatDate) {}'), []);
+		assert.deepStrictEqual(parseModule('export function formatDate(value) { return value; }').shadowed, []);
+	});
+});
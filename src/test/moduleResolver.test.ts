@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { ResolverConfig, resolveImport } from '../moduleResolver';
+
+const ROOT = path.resolve('/repo');
+const file = (...segments: string[]) => path.join(ROOT, ...segments);
+
+const FILES = new Set([
+	file('apps', 'web', 'src', 'main.ts'),
+	file('apps', 'web', 'src', 'ui', 'button.tsx'),
+	file('apps', 'web', 'src', 'db', 'index.ts'),
+	file('packages', 'core', 'src', 'index.ts'),
+	file('packages', 'core', 'src', 'dates.ts'),
+]);
+const exists = (filePath: string) => FILES.has(filePath);
+
+const CONFIG: ResolverConfig = {
+	aliases: [{
+		projectDir: file('apps', 'web'),
+		baseDir: file('apps', 'web'),
+		hasBaseUrl: false,
+		paths: { '@ui/*': ['src/ui/*'], '@db': ['src/db'] },
+	}],
+	packages: [{ name: '@acme/core', dir: file('packages', 'core'), entries: ['dist/index.js'] }],
+};
+
+suite('Module Resolver Test Suite', () => {
+	const main = file('apps', 'web', 'src', 'main.ts');
+
+	test('Resolves relative imports with extensions and index files', () => {
+		assert.strictEqual(resolveImport(main, './ui/button', exists), file('apps', 'web', 'src', 'ui', 'button.tsx'));
+		assert.strictEqual(resolveImport(main, './db', exists), file('apps', 'web', 'src', 'db', 'index.ts'));
+		assert.strictEqual(resolveImport(main, './ui/button.js', exists), file('apps', 'web', 'src', 'ui', 'button.tsx'));
+	});
+
+	test('Resolves tsconfig path aliases for files inside the project', () => {
+		assert.strictEqual(resolveImport(main, '@ui/button', exists, CONFIG), file('apps', 'web', 'src', 'ui', 'button.tsx'));
+		assert.strictEqual(resolveImport(main, '@db', exists, CONFIG), file('apps', 'web', 'src', 'db', 'index.ts'));
+		assert.strictEqual(resolveImport(file('packages', 'core', 'src', 'index.ts'), '@ui/button', exists, CONFIG), undefined);
+	});
+
+	test('Resolves workspace packages and their subpaths', () => {
+		assert.strictEqual(resolveImport(main, '@acme/core', exists, CONFIG), file('packages', 'core', 'src', 'index.ts'));
+		assert.strictEqual(resolveImport(main, '@acme/core/dates', exists, CONFIG), file('packages', 'core', 'src', 'dates.ts'));
+	});
+
+	test('Leaves external packages unresolved', () => {
+		assert.strictEqual(resolveImport(main, 'react', exists, CONFIG), undefined);
+	});
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { DependencyNode, ImpactAnalysis } from '../types';
+import { PackageScope, assignPackages, findPackage } from '../packageGraph';
+
+const ROOT = path.resolve('/repo');
+const file = (...segments: string[]) => path.join(ROOT, ...segments);
+
+const SCOPES: PackageScope[] = [
+	{ name: 'repo', dir: ROOT },
+	{ name: '@acme/core', dir: file('packages', 'core') },
+	{ name: '@acme/web', dir: file('apps', 'web') },
+	{ name: '@acme/api', dir: file('apps', 'api') }
+];
+
+function node(id: string, uri: string, extra: Partial<DependencyNode> = {}): DependencyNode {
+	return { id, name: id, fileName: path.basename(uri), uri, line: 1, type: 'function', references: 1, isRoot: false, depth: 1, ...extra };
+}
+
+function analysis(): ImpactAnalysis {
+	return {
+		symbol: 'parseDate',
+		sourceFile: 'packages/core/src/dates.ts',
+		affectedFiles: 4,
+		totalReferences: 4,
+		maxDepth: 2,
+		nodes: [
+			node('root', file('packages', 'core', 'src', 'dates.ts'), { isRoot: true, depth: 0 }),
+			node('format', file('packages', 'core', 'src', 'format.ts')),
+			node('page', file('apps', 'web', 'src', 'page.tsx')),
+			node('header', file('apps', 'web', 'src', 'header.tsx'), { depth: 2 }),
+			node('handler', file('apps', 'api', 'src', 'handler.ts'), { depth: 2 })
+		],
+		links: [
+			{ source: 'root', target: 'format', type: 'uses' },
+			{ source: 'root', target: 'page', type: 'uses' },
+			{ source: 'format', target: 'header', type: 'uses' },
+			{ source: 'page', target: 'header', type: 'uses' },
+			{ source: 'format', target: 'handler', type: 'uses' }
+		]
+	};
+}
+
+suite('Package Graph Test Suite', () => {
+	test('Finds the innermost package of a file', () => {
+		assert.strictEqual(findPackage(file('apps', 'web', 'src', 'page.tsx'), SCOPES)?.name, '@acme/web');
+		assert.strictEqual(findPackage(file('scripts', 'build.ts'), SCOPES)?.name, 'repo');
+		assert.strictEqual(findPackage(file('apps', 'website', 'index.ts'), SCOPES)?.name, 'repo');
+		assert.strictEqual(findPackage(path.resolve('/elsewhere/a.ts'), SCOPES), undefined);
+	});
+
+	test('Groups impacted nodes by package', () => {
+		const result = analysis();
+		assignPackages(result, SCOPES);
+
+		assert.deepStrictEqual(result.nodes.map(n => n.package), ['@acme/core', '@acme/core', '@acme/web', '@acme/web', '@acme/api']);
+		assert.deepStrictEqual(result.packages?.map(p => [p.name, p.nodes, p.files]), [
+			['@acme/web', 2, 2],
+			['@acme/api', 1, 1],
+			['@acme/core', 1, 1]
+		]);
+	});
+
+	test('Counts the edges between packages', () => {
+		const result = analysis();
+		assignPackages(result, SCOPES);
+
+		assert.deepStrictEqual(result.packageLinks, [
+			{ source: '@acme/core', target: '@acme/web', links: 2 },
+			{ source: '@acme/core', target: '@acme/api', links: 1 }
+		]);
+	});
+
+	test('Leaves single-package workspaces alone', () => {
+		const result = analysis();
+		assignPackages(result, [{ name: 'repo', dir: ROOT }]);
+
+		assert.ok(result.nodes.every(n => n.package === undefined));
+		assert.strictEqual(result.packages, undefined);
+	});
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { DependencyNode } from '../types';
+import { graphRiskFactors, rateBlastRadius, scoreNode } from '../riskScore';
+
+const node = (id: string, type: DependencyNode['type'] = 'function'): DependencyNode => ({
+	id, name: id, fileName: `${id}.ts`, uri: `/src/${id}.ts`, line: 1, type, references: 1, isRoot: id === 'root', depth: 1
+});
+
+suite('Risk Score Test Suite', () => {
+	test('Scores exported, untested, busy code highest', () => {
+		const risky = scoreNode({ fanOut: 5, depth: 1, exported: true, tested: false, churn: 10, isTest: false });
+		const safe = scoreNode({ fanOut: 0, depth: 3, exported: false, tested: true, churn: 0, isTest: false });
+		assert.strictEqual(risky, 100);
+		assert.strictEqual(safe, 7);
+	});
+
+	test('Scores tests by distance and churn only', () => {
+		assert.strictEqual(scoreNode({ fanOut: 5, depth: 2, exported: true, tested: false, churn: 0, isTest: true }), 10);
+	});
+
+	test('Rates the blast radius from the riskiest nodes and the number of files', () => {
+		assert.deepStrictEqual(rateBlastRadius([], 0), { score: 0, rating: 'low' });
+		assert.deepStrictEqual(rateBlastRadius([40, 30], 2), { score: 25, rating: 'medium' });
+		assert.deepStrictEqual(rateBlastRadius([100, 90, 80, 90, 90, 0], 20), { score: 94, rating: 'critical' });
+	});
+
+	test('Follows reference edges to dependents', () => {
+		const nodes = [node('root'), node('a'), node('b'), node('spec', 'test')];
+		const links = [
+			{ source: 'root', target: 'a', type: 'uses' as const },
+			{ source: 'root', target: 'b', type: 'uses' as const },
+			{ source: 'a', target: 'spec', type: 'tests' as const }
+		];
+		const factors = graphRiskFactors(nodes, links, true);
+		assert.deepStrictEqual(factors.get('root'), { fanOut: 2, tested: true });
+		assert.deepStrictEqual(factors.get('a'), { fanOut: 1, tested: true });
+		assert.deepStrictEqual(factors.get('b'), { fanOut: 0, tested: false });
+	});
+
+	test('Follows call edges back to callers', () => {
+		const nodes = [node('root'), node('caller'), node('spec', 'test')];
+		const links = [
+			{ source: 'caller', target: 'root', type: 'uses' as const },
+			{ source: 'spec', target: 'caller', type: 'tests' as const }
+		];
+		const factors = graphRiskFactors(nodes, links, false);
+		assert.deepStrictEqual(factors.get('root'), { fanOut: 1, tested: true });
+		assert.deepStrictEqual(factors.get('spec'), { fanOut: 0, tested: false });
+	});
+});
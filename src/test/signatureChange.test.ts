@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import {
+	callSiteProblems,
+	compareSignatures,
+	countArguments,
+	formatSignature,
+	parseSignature
+} from '../signatureChange';
+
+const DECLARED = 'parseDate(value: string, format: Format = \'iso\', onError?: (err: Error) => void): Date {';
+
+suite('Signature Change Test Suite', () => {
+	test('Parses declared parameters with types and defaults', () => {
+		const signature = parseSignature(DECLARED);
+		assert.strictEqual(signature?.name, 'parseDate');
+		assert.deepStrictEqual(signature?.parameters?.map(p => [p.name, p.optional]), [
+			['value', false],
+			['format', true],
+			['onError', true]
+		]);
+		assert.strictEqual(formatSignature(signature!), 'parseDate(value: string, format: Format = \'iso\', onError?: (err: Error) => void)');
+	});
+
+	test('Parses arrow functions, modifiers and symbols without parameters', () => {
+		assert.deepStrictEqual(
+			parseSignature('load = async <T>(private readonly url: string, ...rest: T[]) => {')?.parameters?.map(p => [p.name, p.optional]),
+			[['url', false], ['rest', true]]
+		);
+		assert.deepStrictEqual(parseSignature('MAX_DEPTH = 5;'), { name: 'MAX_DEPTH' });
+		assert.deepStrictEqual(parseSignature('UserService {'), { name: 'UserService' });
+		assert.strictEqual(parseSignature('(value)'), undefined);
+	});
+
+	test('Finds removed, added and reordered parameters', () => {
+		const before = parseSignature(DECLARED)!;
+		const change = compareSignatures(before, parseSignature('toDate(locale: string, value, strict = false)')!);
+		assert.strictEqual(change.renamed, true);
+		assert.deepStrictEqual(change.removed, [{ name: 'format', index: 1 }, { name: 'onError', index: 2 }]);
+		assert.deepStrictEqual(change.addedRequired, ['locale']);
+		assert.strictEqual(change.reordered, false);
+
+		assert.strictEqual(compareSignatures(parseSignature('f(a, b)')!, parseSignature('f(b, a)')!).reordered, true);
+		// Typing just a name keeps the parameters
+		assert.deepStrictEqual(compareSignatures(before, parseSignature('toDate')!).removed, []);
+	});
+
+	test('Counts call arguments after a reference', () => {
+		assert.strictEqual(countArguments('(input, \'iso\', () => fail(1, 2));'), 3);
+		assert.strictEqual(countArguments('<Date>(\n\tinput,\n)'), 1);
+		assert.strictEqual(countArguments('?.()'), 0);
+		assert.strictEqual(countArguments(' } from \'./dates\';'), undefined);
+		assert.strictEqual(countArguments(', parseTime]);'), undefined);
+	});
+
+	test('Reports call sites the change breaks', () => {
+		const change = compareSignatures(parseSignature('parseDate(value, format, strict)')!, parseSignature('parseDate(value, strict)')!);
+		assert.deepStrictEqual(callSiteProblems(change, 1), []);
+		assert.deepStrictEqual(callSiteProblems(change, 2), ['passes the removed parameter \'format\'']);
+		assert.deepStrictEqual(callSiteProblems(change, undefined), []);
+
+		const added = compareSignatures(parseSignature('f(a, b)')!, parseSignature('f(b, a, c)')!);
+		assert.deepStrictEqual(callSiteProblems(added, 2), ['needs an argument for \'c\'', 'passes its arguments in the old order']);
+	});
+});
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { findEnclosingTestBlocks } from '../testBlocks';
+
+const SPEC = [
+	"import { save } from './user';",
+	'',
+	"describe('UserService', () => {",
+	"	it('saves the user', () => {",
+	'		expect(save()).toBe(true);',
+	'	});',
+	'',
+	"	test.only('skips invalid users', async () => {",
+	'		const result = await save();',
+	'',
+	'		expect(result).toBe(false);',
+	'	});',
+	'});',
+];
+
+suite('Test Block Detection Test Suite', () => {
+	test('Finds the suite and test enclosing a line', () => {
+		assert.deepStrictEqual(findEnclosingTestBlocks(SPEC, 4), [
+			{ name: 'UserService', kind: 'suite', line: 2 },
+			{ name: 'saves the user', kind: 'test', line: 3 },
+		]);
+	});
+
+	test('Skips sibling blocks and blank lines', () => {
+		assert.deepStrictEqual(findEnclosingTestBlocks(SPEC, 10).map(b => b.name), [
+			'UserService',
+			'skips invalid users',
+		]);
+	});
+
+	test('Includes the block that starts on the line itself', () => {
+		assert.deepStrictEqual(findEnclosingTestBlocks(SPEC, 3).map(b => b.name), [
+			'UserService',
+			'saves the user',
+		]);
+	});
+
+	test('Returns nothing outside any block', () => {
+		assert.deepStrictEqual(findEnclosingTestBlocks(SPEC, 0), []);
+	});
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { findTextMentions } from '../textMentions';
+
+suite('Text Mentions Test Suite', () => {
+	test('Finds whole-word mentions of a name', () => {
+		const yaml = 'services:\n  user: UserService\n  factory: UserServiceFactory\n  legacy: app.UserService # old\n';
+		assert.deepStrictEqual(findTextMentions(yaml, 'UserService'), [
+			{ line: 1, excerpt: 'user: UserService' },
+			{ line: 3, excerpt: 'legacy: app.UserService # old' }
+		]);
+		assert.deepStrictEqual(findTextMentions('<a ng-click="$save()">', '$save'), [{ line: 0, excerpt: '<a ng-click="$save()">' }]);
+	});
+
+	test('Only counts mentions inside strings in source files', () => {
+		const source = [
+			'const service = new UserService();',
+			'container.get(\'UserService\');',
+			'// UserService is registered by name',
+			'route("users/:id", "UserService.find"); UserService;'
+		].join('\n');
+		assert.deepStrictEqual(findTextMentions(source, 'UserService', true).map(m => m.line), [1, 3]);
+	});
+
+	test('Shortens long lines', () => {
+		const [mention] = findTextMentions(`"handler": "${'x'.repeat(200)}.parseDate"`, 'parseDate');
+		assert.strictEqual(mention.excerpt.length, 120);
+		assert.ok(mention.excerpt.endsWith('…'));
+	});
+});
@@ -0,0 +1,40 @@
+// ─── Test Block Detection ────────────────────────────────────
+
+export interface TestBlock {
+	/** Title passed to the block, e.g. `saves the user` */
+	name: string;
+	kind: 'suite' | 'test';
+	/** Zero-based line of the block's call */
+	line: number;
+}
+
+const SUITE_CALL = /^\s*(?:describe|context|suite)(?:\.(?:only|skip))?\s*\(\s*(['"`])(.*?)\1/;
+const TEST_CALL = /^\s*(?:it|test|specify)(?:\.(?:only|skip|todo))?\s*\(\s*(['"`])(.*?)\1/;
+
+/**
+ * Test blocks enclosing `line`, outermost first. Blocks are recognized by their call
+ * (`describe(...)`, `it(...)`, `test(...)`), and nesting is inferred from indentation:
+ * scanning upward, a block only encloses the line if it is indented less than everything
+ * seen so far.
+ */
+export function findEnclosingTestBlocks(lines: string[], line: number): TestBlock[] {
+	const blocks: TestBlock[] = [];
+	let indent = Infinity;
+
+	for (let i = Math.min(line, lines.length - 1); i >= 0 && indent > 0; i--) {
+		const text = lines[i];
+		if (text.trim() === '') { continue; }
+
+		const lineIndent = text.length - text.trimStart().length;
+		if (lineIndent >= indent) { continue; }
+		indent = Math.min(indent, lineIndent);
+
+		const suite = SUITE_CALL.exec(text);
+		const test = suite ? null : TEST_CALL.exec(text);
+		if (suite || test) {
+			blocks.unshift({ name: (suite ?? test)![2], kind: suite ? 'suite' : 'test', line: i });
+		}
+	}
+
+	return blocks;
+}
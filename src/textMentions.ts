@@ -0,0 +1,51 @@
+// ─── Text Mentions ───────────────────────────────────────────
+
+export interface TextMention {
+	/** 0-based */
+	line: number;
+	/** The line, trimmed and shortened */
+	excerpt: string;
+}
+
+const MAX_EXCERPT_LENGTH = 120;
+
+/**
+ * Lines mentioning the name as a whole word, e.g. `UserService` in `provide: UserService` or
+ * `"handler": "users.UserService"` but not in `UserServiceFactory`. With `inStringsOnly`, only
+ * mentions inside a string literal on that line count: code elsewhere in a source file is the
+ * reference provider's business.
+ */
+export function findTextMentions(text: string, name: string, inStringsOnly = false): TextMention[] {
+	const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	const pattern = new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`, 'g');
+	const mentions: TextMention[] = [];
+
+	text.split(/\r?\n/).forEach((lineText, line) => {
+		for (const match of lineText.matchAll(pattern)) {
+			if (inStringsOnly && !isInString(lineText, match.index)) { continue; }
+			const excerpt = lineText.trim();
+			mentions.push({
+				line,
+				excerpt: excerpt.length > MAX_EXCERPT_LENGTH ? `${excerpt.slice(0, MAX_EXCERPT_LENGTH - 1)}…` : excerpt
+			});
+			return;
+		}
+	});
+	return mentions;
+}
+
+/** Whether `index` lies inside a quoted string of the line; strings spanning lines are not tracked */
+function isInString(lineText: string, index: number): boolean {
+	let quote: string | undefined;
+	for (let i = 0; i < index; i++) {
+		const char = lineText[i];
+		if (quote) {
+			if (char === '\\') { i++; } else if (char === quote) { quote = undefined; }
+		} else if (char === '"' || char === '\'' || char === '`') {
+			quote = char;
+		} else if (char === '/' && lineText[i + 1] === '/') {
+			return false;
+		}
+	}
+	return quote !== undefined;
+}
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { DependencyLink } from './types';
+import { HopEntry, ImpactGraph, addLink, getOrAddSymbolNode } from './impactEngine';
+import { EditorReferenceSource } from './editorReferences';
+
+// ─── Type Hierarchy Impact ───────────────────────────────────
+
+const TYPE_KINDS = new Set([
+	vscode.SymbolKind.Class,
+	vscode.SymbolKind.Interface,
+	vscode.SymbolKind.Struct
+]);
+
+/**
+ * Adds `extends` / `implements` edges for a class or interface at `position`: its subtypes,
+ * supertypes and implementations. Edges point from the subtype to the supertype.
+ * Returns the subtypes and implementations so their own references can be expanded,
+ * since a change to the base type ripples through them.
+ */
+export async function addTypeHierarchy(
+	graph: ImpactGraph,
+	source: EditorReferenceSource,
+	uri: vscode.Uri,
+	position: vscode.Position,
+	maxDepth: number
+): Promise<HopEntry<vscode.Location>[]> {
+	const items = await vscode.commands.executeCommand<vscode.TypeHierarchyItem[]>(
+		'vscode.prepareTypeHierarchy',
+		uri,
+		position
+	);
+	const rootItem = items?.find(item => TYPE_KINDS.has(item.kind));
+	if (!rootItem) { return []; }
+
+	const impacted: HopEntry<vscode.Location>[] = [];
+	await walkTypeHierarchy(graph, source, rootItem, 'subtypes', maxDepth, impacted);
+	await walkTypeHierarchy(graph, source, rootItem, 'supertypes', maxDepth, []);
+
+	const implementations = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+		'vscode.executeImplementationProvider',
+		rootItem.uri,
+		rootItem.selectionRange.start
+	) ?? [];
+
+	for (const impl of implementations) {
+		const location = 'targetUri' in impl
+			? new vscode.Location(impl.targetUri, impl.targetSelectionRange ?? impl.targetRange)
+			: impl;
+		const entry = await nodeForLocation(graph, source, location, 1);
+		if (!entry || entry.nodeId === 'root') { continue; }
+
+		addLink(graph, entry.nodeId, 'root', rootItem.kind === vscode.SymbolKind.Interface ? 'implements' : 'extends');
+		if (entry.created) { impacted.push(entry); }
+	}
+
+	return impacted;
+}
+
+async function walkTypeHierarchy(
+	graph: ImpactGraph,
+	source: EditorReferenceSource,
+	rootItem: vscode.TypeHierarchyItem,
+	direction: 'subtypes' | 'supertypes',
+	maxDepth: number,
+	created: HopEntry<vscode.Location>[]
+) {
+	const visited = new Set<string>();
+	let frontier: { item: vscode.TypeHierarchyItem; nodeId: string }[] = [{ item: rootItem, nodeId: 'root' }];
+
+	for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+		const next: typeof frontier = [];
+
+		for (const { item, nodeId } of frontier) {
+			const related = await vscode.commands.executeCommand<vscode.TypeHierarchyItem[]>(
+				direction === 'subtypes' ? 'vscode.provideSubtypes' : 'vscode.provideSupertypes',
+				item
+			) ?? [];
+
+			for (const relatedItem of related) {
+				const entry = await nodeForLocation(
+					graph,
+					source,
+					new vscode.Location(relatedItem.uri, relatedItem.selectionRange.start),
+					depth
+				);
+				if (!entry) { continue; }
+
+				const [sub, sup] = direction === 'subtypes' ? [relatedItem, item] : [item, relatedItem];
+				const [subId, supId] = direction === 'subtypes' ? [entry.nodeId, nodeId] : [nodeId, entry.nodeId];
+				addLink(graph, subId, supId, heritageLinkType(sub, sup));
+
+				if (entry.created) { created.push(entry); }
+				if (!visited.has(entry.nodeId)) {
+					visited.add(entry.nodeId);
+					next.push({ item: relatedItem, nodeId: entry.nodeId });
+				}
+			}
+		}
+
+		frontier = next;
+	}
+}
+
+/** A class below an interface implements it; every other pairing is inheritance */
+function heritageLinkType(sub: vscode.TypeHierarchyItem, sup: vscode.TypeHierarchyItem): DependencyLink['type'] {
+	return sup.kind === vscode.SymbolKind.Interface && sub.kind !== vscode.SymbolKind.Interface
+		? 'implements'
+		: 'extends';
+}
+
+/** Resolves a type declaration to its graph node, mapping the analyzed symbol itself onto the root */
+async function nodeForLocation(
+	graph: ImpactGraph,
+	source: EditorReferenceSource,
+	location: vscode.Location,
+	depth: number
+): Promise<(HopEntry<vscode.Location> & { created: boolean }) | undefined> {
+	const enclosing = await source.findEnclosing(location);
+	if (!enclosing) { return undefined; }
+
+	if (graph.rootKeys.has(enclosing.key)) {
+		return { nodeId: 'root', location, created: false };
+	}
+
+	const { node, created } = getOrAddSymbolNode(graph, source, enclosing, depth);
+	return { nodeId: node.id, location, created };
+}
@@ -0,0 +1,118 @@
+// ─── Data Types ──────────────────────────────────────────────
+
+export interface DependencyNode {
+	id: string;
+	name: string;
+	fileName: string;
+	uri: string;
+	line: number;
+	/** `possible`: a mention of the symbol's name found by text search, e.g. in a config file */
+	type: 'symbol' | 'function' | 'class' | 'variable' | 'test' | 'component' | 'import' | 'type' | 'possible';
+	references: number;
+	isRoot: boolean;
+	/** Number of reference hops between this node and the analyzed symbol (root = 0) */
+	depth: number;
+	/** 1-based lines in this node's file where the references that pulled it into the graph are */
+	referenceLines?: number[];
+	/** Set when the node is part of a dependency cycle */
+	cycle?: boolean;
+	/** 0–100 score of how urgently this location needs checking */
+	risk?: number;
+	/** In a comparison: whether the node appeared, disappeared or stayed since the earlier analysis */
+	diff?: DiffStatus;
+	/** Workspace package the node's file belongs to, in workspaces made up of several packages */
+	package?: string;
+	/** In a refactor preview: whether the planned edit takes care of the node's references */
+	refactor?: RefactorStatus;
+	/** Why the node needs manual attention, e.g. it passes a parameter the change removes */
+	refactorNotes?: string[];
+	/** The line of a possible reference, as text search found it */
+	excerpt?: string;
+}
+
+export interface DependencyLink {
+	source: string;
+	target: string;
+	/** `mentions` leads to a possible reference */
+	type: 'defines' | 'uses' | 'tests' | 'imports' | 'extends' | 'implements' | 'mentions';
+	/** 1-based line in the source node's file the edge comes from (import statement, call site) */
+	line?: number;
+	/** Import of types only (`import type`), erased on compile; such edges never close a cycle */
+	typeOnly?: boolean;
+	/** Set when the edge lies on a dependency cycle */
+	cycle?: boolean;
+	/** Why the import breaks an architecture rule from `.codeweb.json` */
+	violation?: string;
+	diff?: DiffStatus;
+}
+
+export interface ImpactAnalysis {
+	symbol: string;
+	sourceFile: string;
+	affectedFiles: number;
+	totalReferences: number;
+	maxDepth: number;
+	nodes: DependencyNode[];
+	links: DependencyLink[];
+	/** Set when the graph was built from the call hierarchy instead of plain references */
+	callDirection?: CallDirection;
+	/** Set for file-level import graphs, where nodes are modules and `symbol` names the scanned folder */
+	moduleGraph?: boolean;
+	/** Overall blast radius, computed from the node risk scores */
+	risk?: ImpactRisk;
+	/** Set when the graph compares two analyses of the same symbol; nodes and links carry `diff` */
+	comparison?: AnalysisComparison;
+	/** Set in multi-package workspaces: the packages holding impacted nodes, by name */
+	packages?: PackageImpact[];
+	/** How impact flows between those packages */
+	packageLinks?: PackageLink[];
+	/** Set when the graph previews a rename or signature change; first-hop nodes carry `refactor` */
+	refactor?: RefactorPreview;
+}
+
+export type RiskRating = 'low' | 'medium' | 'high' | 'critical';
+
+export interface ImpactRisk {
+	score: number;
+	rating: RiskRating;
+}
+
+export type DiffStatus = 'added' | 'removed' | 'unchanged';
+
+export interface AnalysisComparison {
+	/** Labels of the earlier and later analysis, e.g. when they were run */
+	before: string;
+	after: string;
+	added: number;
+	removed: number;
+}
+
+export type CallDirection = 'incoming' | 'outgoing' | 'both';
+
+export interface PackageImpact {
+	name: string;
+	dir: string;
+	/** Impacted nodes in the package, not counting the analyzed symbol */
+	nodes: number;
+	files: number;
+}
+
+export interface PackageLink {
+	source: string;
+	target: string;
+	/** Graph edges leading from a node of the source package to one of the target package */
+	links: number;
+}
+
+export type RefactorStatus = 'automatic' | 'manual';
+
+export interface RefactorPreview {
+	/** The planned signature, e.g. `formatDate(value, locale)` */
+	signature: string;
+	/** Text edits the rename makes, and the files they are in */
+	edits: number;
+	files: number;
+	/** First-hop nodes by status */
+	automatic: number;
+	manual: number;
+}
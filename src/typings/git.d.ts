@@ -0,0 +1,71 @@
+/*
+ * Subset of the API exported by the built-in `vscode.git` extension.
+ * See https://github.com/microsoft/vscode/blob/main/extensions/git/src/api/git.d.ts
+ */
+
+import { Uri, Event } from 'vscode';
+
+export interface Ref {
+	/** `RefType` const enum of the git extension: 0 = Head, 1 = RemoteHead, 2 = Tag */
+	readonly type: number;
+	readonly name?: string;
+	readonly commit?: string;
+	readonly remote?: string;
+}
+
+export interface Branch extends Ref {
+	readonly upstream?: { readonly remote: string; readonly name: string };
+	readonly ahead?: number;
+	readonly behind?: number;
+}
+
+export interface Change {
+	readonly uri: Uri;
+	readonly originalUri: Uri;
+	readonly renameUri: Uri | undefined;
+	/** `Status` const enum of the git extension, e.g. 2 = INDEX_DELETED, 6 = DELETED, 7 = UNTRACKED */
+	readonly status: number;
+}
+
+export interface Commit {
+	readonly hash: string;
+	readonly message: string;
+	readonly commitDate?: Date;
+}
+
+export interface LogOptions {
+	/** Max number of log entries to retrieve. If not specified, the default is 32. */
+	readonly maxEntries?: number;
+	readonly path?: string;
+}
+
+export interface RepositoryState {
+	readonly HEAD: Branch | undefined;
+	readonly refs: Ref[];
+	readonly workingTreeChanges: Change[];
+	readonly indexChanges: Change[];
+	/** Only filled when `git.untrackedChanges` is `separate`; otherwise untracked files are working tree changes */
+	readonly untrackedChanges?: Change[];
+	readonly onDidChange: Event<void>;
+}
+
+export interface Repository {
+	readonly rootUri: Uri;
+	readonly state: RepositoryState;
+
+	diffWithHEAD(): Promise<Change[]>;
+	diffWithHEAD(path: string): Promise<string>;
+	diffWith(ref: string): Promise<Change[]>;
+	diffWith(ref: string, path: string): Promise<string>;
+	log(options?: LogOptions): Promise<Commit[]>;
+}
+
+export interface API {
+	readonly repositories: Repository[];
+	getRepository(uri: Uri): Repository | null;
+}
+
+export interface GitExtension {
+	readonly enabled: boolean;
+	getAPI(version: 1): API;
+}
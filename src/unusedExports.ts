@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import { UsageSummary, classifyExportUsage, isTestFile } from './exportUsage';
+import { findExportedSymbols } from './fileExports';
+import { parseModule } from './moduleParser';
+import { DependencyIndex, EXCLUDE_GLOB, SOURCE_GLOB, findReferences } from './dependencyIndex';
+
+// ─── Unused Exports ──────────────────────────────────────────
+
+/** Functions, classes, types and variables; exported namespaces and the like are not reported */
+const REPORTED_KINDS = new Set([
+	vscode.SymbolKind.Function,
+	vscode.SymbolKind.Class,
+	vscode.SymbolKind.Interface,
+	vscode.SymbolKind.Enum,
+	vscode.SymbolKind.Struct,
+	vscode.SymbolKind.TypeParameter,
+	vscode.SymbolKind.Variable,
+	vscode.SymbolKind.Constant
+]);
+
+const KIND_ICONS = new Map([
+	[vscode.SymbolKind.Function, 'symbol-function'],
+	[vscode.SymbolKind.Class, 'symbol-class'],
+	[vscode.SymbolKind.Interface, 'symbol-interface'],
+	[vscode.SymbolKind.Enum, 'symbol-enum'],
+	[vscode.SymbolKind.Struct, 'symbol-struct'],
+	[vscode.SymbolKind.TypeParameter, 'symbol-type-parameter'],
+	[vscode.SymbolKind.Constant, 'symbol-constant']
+]);
+
+export interface UnusedExport extends UsageSummary {
+	uri: vscode.Uri;
+	name: string;
+	kind: vscode.SymbolKind;
+	/** The exported name in its declaration */
+	range: vscode.Range;
+}
+
+/**
+ * Looks up the references of every export in the workspace's JavaScript and TypeScript files
+ * and returns those no other file uses, or only tests do. Test files themselves are skipped.
+ */
+export async function findUnusedExports(
+	index: DependencyIndex | undefined,
+	progress: vscode.Progress<{ message?: string; increment?: number }>,
+	token: vscode.CancellationToken
+): Promise<UnusedExport[]> {
+	const files = (await vscode.workspace.findFiles(SOURCE_GLOB, EXCLUDE_GLOB)).filter(uri => !isTestFile(uri.fsPath));
+	const unused: UnusedExport[] = [];
+
+	for (const uri of files) {
+		if (token.isCancellationRequested) { break; }
+		progress.report({ message: vscode.workspace.asRelativePath(uri), increment: 100 / files.length });
+
+		let document: vscode.TextDocument;
+		try {
+			document = await vscode.workspace.openTextDocument(uri);
+		} catch {
+			continue;
+		}
+		// `export { a, b }` lists mention their locals without using them
+		const exportLines = new Set(parseModule(document.getText()).exports.map(e => e.line));
+
+		for (const symbol of await findExportedSymbols(document)) {
+			if (!REPORTED_KINDS.has(symbol.kind)) { continue; }
+
+			const position = symbol.selectionRange.start;
+			const locations = await findReferences(uri, position, symbol.name, index, position);
+			const referenceFiles = locations
+				.filter(loc => loc.uri.fsPath !== uri.fsPath
+					|| (!symbol.selectionRange.contains(loc.range.start) && !exportLines.has(loc.range.start.line)))
+				.map(loc => loc.uri.fsPath);
+
+			const usage = classifyExportUsage(uri.fsPath, referenceFiles);
+			if (usage) {
+				unused.push({ uri, name: symbol.name, kind: symbol.kind, range: symbol.selectionRange, ...usage });
+			}
+		}
+	}
+
+	return unused;
+}
+
+/** e.g. `never used`, `only used in its own file`, `only used by 2 test files` */
+export function describeUsage(item: UnusedExport): string {
+	if (item.usage === 'testOnly') {
+		return `only used by ${item.testFiles.length === 1 ? 'a test file' : `${item.testFiles.length} test files`}`;
+	}
+	return item.localReferences > 0 ? 'only used in its own file' : 'never used';
+}
+
+/**
+ * One hint per unused export on its name. Exports nothing uses at all are also marked
+ * unnecessary, which fades them out like unused locals.
+ */
+export function publishUnusedExportDiagnostics(collection: vscode.DiagnosticCollection, unused: UnusedExport[]) {
+	const byFile = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+
+	for (const item of unused) {
+		const diagnostic = new vscode.Diagnostic(
+			item.range,
+			`'${item.name}' is exported but ${describeUsage(item)}`,
+			vscode.DiagnosticSeverity.Hint
+		);
+		diagnostic.source = 'Dependency Impact';
+		if (item.usage === 'unused' && item.localReferences === 0) {
+			diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+		}
+		if (item.usage === 'testOnly') {
+			diagnostic.relatedInformation = item.testFiles.map(file => new vscode.DiagnosticRelatedInformation(
+				new vscode.Location(vscode.Uri.file(file), new vscode.Position(0, 0)),
+				'Referenced by this test file'
+			));
+		}
+
+		const key = item.uri.toString();
+		if (!byFile.has(key)) { byFile.set(key, { uri: item.uri, diagnostics: [] }); }
+		byFile.get(key)!.diagnostics.push(diagnostic);
+	}
+
+	collection.clear();
+	for (const { uri, diagnostics } of byFile.values()) {
+		collection.set(uri, diagnostics);
+	}
+}
+
+// ─── Tree View ───────────────────────────────────────────────
+
+type UnusedExportItem =
+	| { kind: 'file'; uri: vscode.Uri; exports: UnusedExport[] }
+	| { kind: 'export'; item: UnusedExport };
+
+/** The last scan's findings, by file */
+export class UnusedExportsProvider implements vscode.TreeDataProvider<UnusedExportItem> {
+	private readonly changeEmitter = new vscode.EventEmitter<void>();
+	readonly onDidChangeTreeData = this.changeEmitter.event;
+	private files: Extract<UnusedExportItem, { kind: 'file' }>[] = [];
+
+	get unusedExports(): UnusedExport[] {
+		return this.files.flatMap(file => file.exports);
+	}
+
+	/** e.g. `3 unused · 2 test-only` */
+	get summary(): string | undefined {
+		const all = this.unusedExports;
+		if (all.length === 0) { return undefined; }
+		const testOnly = all.filter(item => item.usage === 'testOnly').length;
+		return `${all.length - testOnly} unused · ${testOnly} test-only`;
+	}
+
+	update(unused: UnusedExport[]) {
+		const byFile = new Map<string, Extract<UnusedExportItem, { kind: 'file' }>>();
+		for (const item of unused) {
+			const key = item.uri.toString();
+			if (!byFile.has(key)) { byFile.set(key, { kind: 'file', uri: item.uri, exports: [] }); }
+			byFile.get(key)!.exports.push(item);
+		}
+		this.files = [...byFile.values()]
+			.sort((a, b) => vscode.workspace.asRelativePath(a.uri).localeCompare(vscode.workspace.asRelativePath(b.uri)));
+		this.changeEmitter.fire();
+	}
+
+	getTreeItem(element: UnusedExportItem): vscode.TreeItem {
+		if (element.kind === 'file') {
+			const treeItem = new vscode.TreeItem(element.uri, vscode.TreeItemCollapsibleState.Expanded);
+			treeItem.description = `${element.exports.length} export${element.exports.length !== 1 ? 's' : ''}`;
+			treeItem.command = { command: 'vscode.open', title: 'Open', arguments: [element.uri] };
+			return treeItem;
+		}
+
+		const { item } = element;
+		const treeItem = new vscode.TreeItem(item.name);
+		treeItem.description = `${describeUsage(item)} · L${item.range.start.line + 1}`;
+		treeItem.iconPath = new vscode.ThemeIcon(item.usage === 'testOnly' ? 'beaker' : KIND_ICONS.get(item.kind) ?? 'symbol-variable');
+		if (item.usage === 'testOnly') {
+			treeItem.tooltip = `Only referenced by:\n${item.testFiles.map(file => vscode.workspace.asRelativePath(file)).join('\n')}`;
+		}
+		treeItem.command = {
+			command: 'vscode.open',
+			title: 'Open',
+			arguments: [item.uri, { selection: item.range }]
+		};
+		return treeItem;
+	}
+
+	getChildren(element?: UnusedExportItem): UnusedExportItem[] {
+		if (!element) { return this.files; }
+		if (element.kind === 'file') {
+			return element.exports.map(item => ({ kind: 'export', item }));
+		}
+		return [];
+	}
+}